@@ -0,0 +1,200 @@
+import ManifoldModule from 'manifold-3d';
+import { MeshAttribute } from '@wonderlandengine/api';
+import { evaluateOpTrees } from '../src/common/evaluate-op-trees';
+import { WorkerResultType } from '../src/common/WorkerResponse';
+import { makeTypedArray } from '../src/common/make-typed-array';
+import baseline from './evaluate-op-trees.baseline.json';
+
+import type { Manifold, ManifoldToplevel } from 'manifold-3d';
+import type { EncodedMeshGroup } from '../src/common/EncodedMeshGroup';
+import type { WorkerOperation } from '../src/common/WorkerRequest';
+import type { UploadedMeshMap } from '../src/common/evaluate-op-trees';
+
+// circular segments of the input sphere. 512 segments results in ~130k
+// triangles
+const SPHERE_SEGMENTS = 512;
+const WARMUP_ITERATIONS = 2;
+const ITERATIONS = 10;
+
+// XXX absolute times depend on the machine and its load, so medians are
+// divided by the median of a calibration run, which does the same booleans
+// directly with Manifold, in the same process. the baseline has the expected
+// ratios; a ratio bigger than its baseline by more than the tolerance (a
+// fraction of the baseline) is treated as a regression. the baseline must be
+// updated when the evaluation code gets intentionally slower
+type BaselineKey = keyof typeof baseline.ratios;
+
+/**
+ * Make an encoded MeshGroup with a single submesh from a sphere, with normals
+ * and spherical texture coordinates, without needing Wonderland Engine. If
+ * shared is true, then the mesh is in shared memory.
+ */
+function makeSphereMeshGroup(manifoldModule: ManifoldToplevel, segments: number, shared: boolean): EncodedMeshGroup {
+    const sphere = manifoldModule.Manifold.sphere(1, segments);
+    const mesh = sphere.getMesh();
+    sphere.delete();
+
+    const vertCount = mesh.numVert;
+    const positions = makeTypedArray(Float32Array, vertCount * 3, shared);
+    const normals = makeTypedArray(Float32Array, vertCount * 3, shared);
+    const uvs = makeTypedArray(Float32Array, vertCount * 2, shared);
+    const indices = makeTypedArray(Uint32Array, mesh.triVerts.length, shared);
+    indices.set(mesh.triVerts);
+
+    for (let i = 0; i < vertCount; i++) {
+        const x = mesh.vertProperties[i * mesh.numProp];
+        const y = mesh.vertProperties[i * mesh.numProp + 1];
+        const z = mesh.vertProperties[i * mesh.numProp + 2];
+        const length = Math.hypot(x, y, z);
+
+        positions.set([x, y, z], i * 3);
+        normals.set([x / length, y / length, z / length], i * 3);
+        uvs[i * 2] = Math.atan2(y, x) / (2 * Math.PI) + 0.5;
+        uvs[i * 2 + 1] = Math.acos(z / length) / Math.PI;
+    }
+
+    return {
+        mergeMap: null,
+        submeshes: [{
+            indices,
+            positions,
+            extraAttributes: [
+                [MeshAttribute.Normal, normals],
+                [MeshAttribute.TextureCoordinate, uvs],
+            ],
+            materialID: 0,
+        }],
+    };
+}
+
+function countTriangles(meshGroup: EncodedMeshGroup): number {
+    let triangles = 0;
+    for (const submesh of meshGroup.submeshes) {
+        triangles += (submesh.indices ? submesh.indices.length : submesh.positions.length / 3) / 3;
+    }
+
+    return triangles;
+}
+
+function getMedian(times: Array<number>): number {
+    times.sort((a, b) => a - b);
+    return times[Math.floor(times.length / 2)];
+}
+
+/**
+ * Do the same booleans as the benchmarked tree multiple times, directly with
+ * Manifold, and print how long they took. Used for calibrating the benchmark.
+ */
+function benchmarkCalibration(manifoldModule: ManifoldToplevel): number {
+    const { Manifold } = manifoldModule;
+    const sphere = Manifold.sphere(1, SPHERE_SEGMENTS);
+    const cube = Manifold.cube(1);
+    const smallSphere = Manifold.sphere(0.5, 64);
+    const times = new Array<number>();
+
+    for (let i = 0; i < WARMUP_ITERATIONS + ITERATIONS; i++) {
+        const start = performance.now();
+        const partial = sphere.subtract(cube);
+        const result = partial.subtract(smallSphere);
+        result.getMesh();
+        const time = performance.now() - start;
+
+        partial.delete();
+        result.delete();
+
+        if (i >= WARMUP_ITERATIONS) {
+            times.push(time);
+        }
+    }
+
+    sphere.delete();
+    cube.delete();
+    smallSphere.delete();
+
+    const median = getMedian(times);
+    console.log(`Calibration: median ${median.toFixed(2)} ms (${ITERATIONS} iterations)`);
+    return median;
+}
+
+/**
+ * Evaluate a tree multiple times and print how long the evaluation took. If
+ * sharedMemory is true, then the input mesh is read from shared memory, and
+ * resulting meshes are written to shared memory.
+ */
+async function benchmarkTree(manifoldModule: ManifoldToplevel, sharedMemory: boolean): Promise<number> {
+    // XXX the input mesh is cut by a cube with a different material, so that
+    // the result has multiple runs, and by a lower resolution sphere, so that
+    // the result has vertices that aren't in the input mesh
+    const meshGroup = makeSphereMeshGroup(manifoldModule, SPHERE_SEGMENTS, sharedMemory);
+    const tree: WorkerOperation = {
+        operation: 'subtract',
+        manifolds: [
+            meshGroup,
+            { primitive: 'cube', size: 1, material: 1 },
+            { primitive: 'sphere', radius: 0.5, circularSegments: 64, material: 2 },
+        ],
+    };
+
+    console.log(`Input: ${countTriangles(meshGroup)} triangles`);
+
+    const times = new Array<number>();
+    const uploadedMeshes: UploadedMeshMap = new Map();
+
+    for (let i = 0; i < WARMUP_ITERATIONS + ITERATIONS; i++) {
+        const allocatedManifolds = new Array<Manifold>();
+        const start = performance.now();
+        const [result] = await evaluateOpTrees(manifoldModule, [tree], [null], [], allocatedManifolds, uploadedMeshes, null, sharedMemory);
+        const time = performance.now() - start;
+
+        for (const manifold of allocatedManifolds) {
+            manifold.delete();
+        }
+
+        if (result[0] !== WorkerResultType.MeshGroup) {
+            throw new Error('Expected a MeshGroup result');
+        }
+
+        if (i === 0) {
+            const buffer = result[1].submeshes[0].positions.buffer;
+            if ((buffer instanceof SharedArrayBuffer) !== sharedMemory) {
+                throw new Error('Unexpected result buffer type');
+            }
+
+            console.log(`Output: ${countTriangles(result[1])} triangles, ${result[1].submeshes.length} submeshes`);
+        }
+
+        if (i >= WARMUP_ITERATIONS) {
+            times.push(time);
+        }
+    }
+
+    const mean = times.reduce((a, b) => a + b, 0) / times.length;
+    const median = getMedian(times);
+    console.log(`evaluateOpTrees (${sharedMemory ? 'shared memory' : 'transferable'}): min ${times[0].toFixed(2)} ms, median ${median.toFixed(2)} ms, mean ${mean.toFixed(2)} ms (${ITERATIONS} iterations)`);
+    return median;
+}
+
+async function main() {
+    const manifoldModule = await ManifoldModule();
+    manifoldModule.setup();
+
+    const calibration = benchmarkCalibration(manifoldModule);
+    const regressions = new Array<string>();
+    for (const sharedMemory of [false, true]) {
+        const ratio = await benchmarkTree(manifoldModule, sharedMemory) / calibration;
+        const key: BaselineKey = sharedMemory ? 'sharedMemory' : 'transferable';
+        const maxRatio = baseline.ratios[key] * (1 + baseline.tolerance);
+        console.log(`Ratio to calibration (${key}): ${ratio.toFixed(2)}, baseline ${baseline.ratios[key].toFixed(2)}, maximum allowed ${maxRatio.toFixed(2)}`);
+
+        if (ratio > maxRatio) {
+            regressions.push(`${key} ratio to calibration (${ratio.toFixed(2)}) is bigger than the maximum allowed ratio (${maxRatio.toFixed(2)})`);
+        }
+    }
+
+    // XXX throwing makes node exit with a non-zero exit code
+    if (regressions.length > 0) {
+        throw new Error(`Performance regression detected:\n${regressions.join('\n')}`);
+    }
+}
+
+main();
@@ -3,6 +3,16 @@ export * from './client/curves/extend-curve-frames';
 export * from './client/curves/fix-tangent-list';
 export * from './client/curves/make-rotation-minimizing-frames';
 
+export * from './client/mesh-backend/BackendMesh';
+export * from './client/mesh-backend/BackendMeshAttributeAccessor';
+export * from './client/mesh-backend/BackendMeshOptions';
+export * from './client/mesh-backend/get-mesh-backend';
+export * from './client/mesh-backend/MeshBackend';
+export * from './client/mesh-backend/TypedArrayMesh';
+export * from './client/mesh-backend/TypedArrayMeshAttributeAccessor';
+export * from './client/mesh-backend/TypedArrayMeshBackend';
+export * from './client/mesh-backend/WLEMeshBackend';
+
 export * from './client/mesh-gen/auto-connect-all-edges';
 export * from './client/mesh-gen/auto-connect-edges';
 export * from './client/mesh-gen/clone-mesh';
@@ -16,12 +26,12 @@ export * from './client/mesh-gen/Triangle';
 export * from './client/misc/EPS';
 
 export * from './client/polylines/circle-polyline';
+export * from './client/polylines/cross-section-from-polylines';
 export * from './client/polylines/rectangle-polyline';
 export * from './client/polylines/regular-polyline';
 export * from './client/polylines/square-polyline';
 export * from './client/polylines/star-polyline';
 
-export * from './client/triangulation/is-clockwise-2d-polygon';
 export * from './client/triangulation/is-clockwise-2d-triangle';
 export * from './client/triangulation/partition-2d-polygon';
 export * from './client/triangulation/sort-2d-indices';
@@ -29,25 +39,41 @@ export * from './client/triangulation/split-2d-polygon';
 export * from './client/triangulation/triangulate-2d-polygon';
 export * from './client/triangulation/triangulate-monotone-2d-polygon';
 
+export * from './client/worker-env/BrowserWorkerEnvironment';
+export * from './client/worker-env/NodeWorker';
+export * from './client/worker-env/NodeWorkerEnvironment';
+export * from './client/worker-env/NodeWorkerThreads';
+export * from './client/worker-env/PoolWorker';
+export * from './client/worker-env/WorkerEnvironment';
+
 export * from './client/BasePrismoidPyramidMesh';
 export * from './client/ConeMesh';
+export * from './client/CSGExecutor';
+export * from './client/CSGOperationResult';
 export * from './client/CSGPool';
+export * from './client/CSGPoolHealth';
+export * from './client/CSGPoolOptions';
+export * from './client/CSGTimeoutError';
 export * from './client/CubeMesh';
 export * from './client/CubeSphereMesh';
 export * from './client/CylinderMesh';
+export * from './client/DispatchOptions';
 export * from './client/ExtrusionMesh';
 export * from './client/FrustumMesh';
 export * from './client/HintOptions';
 export * from './client/IcosahedronMesh';
 export * from './client/IcosphereMesh';
+export * from './client/InlineCSGExecutor';
 export * from './client/LinearExtrusionMesh';
 export * from './client/MeshGroup';
+export * from './client/MeshHandle';
 export * from './client/PrismMesh';
 export * from './client/PrismoidMesh';
 export * from './client/PrismPyramidOptions';
 export * from './client/PyramidMesh';
 export * from './client/RadialOptions';
 export * from './client/RectangularCuboidMesh';
+export * from './client/ResidentManifold';
 export * from './client/SmoothNormalsOptions';
 export * from './client/SolidOfRevolutionMesh';
 export * from './client/TorusMesh';
@@ -58,12 +84,22 @@ export * from './common/CSGFinalOperation';
 export * from './common/CSGGeometricOperation';
 export * from './common/CSGOperation';
 export * from './common/CSGPrimitive';
+export * from './common/CSGSurfaceOptions';
+export * from './common/CSGCrossSection';
+export * from './common/CrossSectionContour';
 export * from './common/CSGTree';
+export * from './common/Curvature';
 export * from './common/DynamicArray';
 export * from './common/getComponentCount';
 export * from './common/Hint';
 export * from './common/HintMap';
+export * from './common/is-clockwise-2d-polygon';
 export * from './common/makeIndexBuffer';
 export * from './common/MappedType';
+export * from './common/MassProperties';
 export * from './common/MergeMap';
 export * from './common/optimize-index-data';
+export * from './common/SDFExpression';
+export * from './common/SDFModule';
+export * from './common/BuiltinWarp';
+export * from './common/WarpModule';
\ No newline at end of file
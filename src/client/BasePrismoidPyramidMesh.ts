@@ -10,7 +10,9 @@ import { autoConnectEdges } from './mesh-gen/auto-connect-edges';
 import { filterHintMap } from './filter-hintmap';
 
 import type { CurveFrame } from '../client';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 import type { EdgeList } from './mesh-gen/EdgeList';
 import type { HintMap } from '../common/HintMap';
 
@@ -66,12 +68,12 @@ function makeBaseUVs(polyline: Array<vec2>, polylineLen: number, bottomBase: boo
  * A procedural mesh class that handles both prismoids and pyramids due to their
  * similarily.
  */
-export class BasePrismoidPyramidMesh extends MeshGroup {
+export class BasePrismoidPyramidMesh<M extends BackendMesh = Mesh> extends MeshGroup<M> {
     /**
      * Create a new prismoid/pyramid hybrid. If the mesh is a prismoid, then an
      * extrusion will be created.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param polyline - The cross-section of the prismoid.
      * @param bottomScale - The scale of the bottom base. If 0, then an inverted pyramid will be created.
      * @param topScale - The scale of the top base. If 0, then a pyramid will be created.
@@ -81,7 +83,7 @@ export class BasePrismoidPyramidMesh extends MeshGroup {
      * @param baseMaterial - The WL.Material to use for the base triangles.
      * @param sideMaterial - The WL.Material to use fot the side triangles.
      */
-    constructor(engine: WonderlandEngine, polyline: Array<vec2>, bottomScale: number, topScale: number, bottomOffset: vec3, topOffset: vec3, smoothNormalMaxAngle: number | null, hints?: HintMap, baseMaterial: Material | null = null, sideMaterial: Material | null = null) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, polyline: Array<vec2>, bottomScale: number, topScale: number, bottomOffset: vec3, topOffset: vec3, smoothNormalMaxAngle: number | null, hints?: HintMap, baseMaterial: Material | null = null, sideMaterial: Material | null = null) {
         // validate that there is at most one apex
         if (topScale === 0 && bottomScale === 0) {
             throw new Error('Only one of the scales can be 0');
@@ -108,7 +110,7 @@ export class BasePrismoidPyramidMesh extends MeshGroup {
             const hasTopApex = (topScale === 0);
             const apexPos = hasTopApex ? topOffset : bottomOffset;
             const apexTexCoords = vec2.fromValues(0.5, 0.5); // center of circle
-            const builder = new MeshBuilder(engine);
+            const builder = new MeshBuilder<M>(engine);
 
             // make transformed base vertex positions
             const basePos = makeBase(polyline, polylineLen, hasTopApex ? bottomScale : topScale, hasTopApex ? bottomOffset : topOffset);
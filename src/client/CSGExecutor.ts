@@ -0,0 +1,53 @@
+import type { Box, Vec3 } from 'manifold-3d';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { CSGOperation } from '../common/CSGOperation';
+import type { CSGTree } from '../common/CSGTree';
+import type { MassProperties } from '../common/MassProperties';
+import type { CSGOperationResult } from './CSGOperationResult';
+import type { DispatchOptions } from './DispatchOptions';
+import type { MeshGroup, Submesh } from './MeshGroup';
+import type { MeshHandle } from './MeshHandle';
+import type { ResidentManifold } from './ResidentManifold';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+
+/**
+ * Something that evaluates trees of CSG operations with Manifold. Implemented
+ * by {@link CSGPool}, which evaluates trees asynchronously in a pool of
+ * workers, and by {@link InlineCSGExecutor}, which evaluates trees in the
+ * current thread, for debugging and tests. Code which only dispatches CSG
+ * operations should depend on this interface, so that the executor can be
+ * swapped.
+ *
+ * See {@link CSGPool} for the documentation of each method.
+ */
+export interface CSGExecutor {
+    /** Prepare the executor, so that the first CSG operation doesn't stutter. */
+    initialize(): Promise<void>;
+    /** Destroy all resources associated with this executor. */
+    dispose(): void;
+    /** Upload a mesh, so that it can be used in multiple CSG operations. */
+    upload(mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh>): MeshHandle;
+    /** Release an uploaded mesh or a resident manifold. */
+    release(handle: MeshHandle): void;
+    /** Evaluate a tree of CSG operations. */
+    dispatch(engine: WonderlandEngine | MeshBackend, operation: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, options: DispatchOptions & { keepResident: true }): Promise<ResidentManifold>;
+    dispatch<Operation extends CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, operation: Operation, options?: DispatchOptions): Promise<CSGOperationResult<Operation, M>>;
+    /** Evaluate a batch of CSG operation trees as a single job. */
+    dispatchBatch(engine: WonderlandEngine | MeshBackend, operations: Array<CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, options: DispatchOptions & { keepResident: true }): Promise<Array<ResidentManifold>>;
+    dispatchBatch<Operations extends Array<CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, operations: [...Operations], options?: DispatchOptions): Promise<{ [Index in keyof Operations]: CSGOperationResult<Operations[Index], M> }>;
+    /** Get the volume of a CSG operation tree or mesh. */
+    volume(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<number>;
+    /** Get the surface area of a CSG operation tree or mesh. */
+    surfaceArea(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<number>;
+    /** Get the axis-aligned bounding box of a CSG operation tree or mesh. */
+    boundingBox(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<Box>;
+    /** Get the center of mass of a CSG operation tree or mesh. */
+    centroid(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<Vec3>;
+    /** Get the mass properties of a CSG operation tree or mesh. */
+    massProperties(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, density?: number, options?: DispatchOptions): Promise<MassProperties>;
+    /** Get the minimum distance between two CSG operation trees or meshes. */
+    minGap(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, other: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, searchLength: number, options?: DispatchOptions): Promise<number>;
+    /** Check whether two CSG operation trees or meshes overlap. */
+    overlaps(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, other: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<boolean>;
+}
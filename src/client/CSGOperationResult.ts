@@ -0,0 +1,25 @@
+import type { Box, Properties } from 'manifold-3d';
+import type { CrossSectionContour } from '../common/CrossSectionContour';
+import type { Curvature } from '../common/Curvature';
+import type { MassProperties } from '../common/MassProperties';
+import type { Mesh } from '@wonderlandengine/api';
+import type { MeshGroup } from './MeshGroup';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
+
+/**
+ * The result of dispatching a CSG operation to a {@link CSGPool}, if the result
+ * is not kept resident, based on the type of the top operation. If the type of
+ * the top operation is not known, then this is a union of all the possible
+ * results. Resulting meshes are created with the mesh backend passed when
+ * dispatching, so they are WL.Mesh instances by default.
+ */
+export type CSGOperationResult<Operation, M extends BackendMesh = Mesh> =
+    Operation extends { operation: 'isEmpty' | 'overlaps' } ? boolean :
+    Operation extends { operation: 'numVert' | 'numTri' | 'numEdge' | 'precision' | 'genus' | 'originalID' | 'minGap' } ? number :
+    Operation extends { operation: 'boundingBox' } ? Box :
+    Operation extends { operation: 'getProperties' } ? Properties :
+    Operation extends { operation: 'getCurvature' } ? Curvature :
+    Operation extends { operation: 'getMassProperties' } ? MassProperties :
+    Operation extends { operation: 'decompose' | 'split' | 'splitByPlane' } ? Array<MeshGroup<M>> :
+    Operation extends { operation: 'slice' | 'project' } ? Array<CrossSectionContour> :
+    MeshGroup<M>;
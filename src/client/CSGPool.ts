@@ -1,32 +1,64 @@
 import { CSGOperation } from '../common/CSGOperation';
 import { iterateOpTree } from '../common/iterate-operation-tree';
-import { WorkerResponse, WorkerResultType } from '../common/WorkerResponse';
+import { WorkerResponse, WorkerResult, WorkerResultType } from '../common/WorkerResponse';
 import { MeshGroup, Submesh } from './MeshGroup';
-import { Mesh } from '@wonderlandengine/api';
+import { CSGTimeoutError } from './CSGTimeoutError';
+import { MeshHandle } from './MeshHandle';
+import { ResidentManifold } from './ResidentManifold';
+import { encodeOpTrees } from './encode-op-trees';
+import { BrowserWorkerEnvironment } from './worker-env/BrowserWorkerEnvironment';
 
 import type { WorkerRequest } from '../common/WorkerRequest';
+import type { DispatchOptions } from './DispatchOptions';
+import type { CSGExecutor } from './CSGExecutor';
+import type { CSGPoolOptions } from './CSGPoolOptions';
+import type { CSGPoolHealth } from './CSGPoolHealth';
 import type { OpTreeCtx } from '../common/iterate-operation-tree';
-import type { Box, Curvature, Properties } from 'manifold-3d';
+import type { Box, Properties, Vec3 } from 'manifold-3d';
+import type { CrossSectionContour } from '../common/CrossSectionContour';
+import type { Curvature } from '../common/Curvature';
+import type { CSGOperationResult } from './CSGOperationResult';
+import type { CSGTree } from '../common/CSGTree';
+import type { MassProperties } from '../common/MassProperties';
 import type { EncodedMeshGroup } from '../common/EncodedMeshGroup';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { PoolWorker } from './worker-env/PoolWorker';
+import type { WorkerEnvironment } from './worker-env/WorkerEnvironment';
 
-type WorkerTuple = [worker: Worker, jobCount: number];
+type WorkerTuple = [worker: PoolWorker, jobCount: number, uploadedMeshes: Set<number>];
 type WorkerArray = Array<WorkerTuple>;
-type JobResult = MeshGroup | boolean | number | Box | Properties | Curvature;
-type JobTuple = [resolve: (value: JobResult) => void, reject: (reason: unknown) => void, engine: WonderlandEngine, materials: Array<Material>, workerID: number];
+type JobResult = MeshGroup<BackendMesh> | Array<MeshGroup<BackendMesh>> | ResidentManifold | boolean | number | Box | Properties | Curvature | MassProperties | Array<CrossSectionContour>;
+type JobTuple = [resolve: (value: JobResult | Array<JobResult>) => void, reject: (reason: unknown) => void, engine: WonderlandEngine | MeshBackend, materials: Array<Material>, workerID: number | null, signal: AbortSignal | null, retry: QueuedJobTuple | null, timer: ReturnType<typeof setTimeout> | null, onProgress: ((evaluated: number, total: number) => void) | null];
+type QueuedJobTuple = [jobID: number, priority: number, request: WorkerRequest, transfer: Array<Transferable>, retriesLeft: number, timeout: number | null, meshHandles: Array<number>, residentHandles: Array<number>];
+type UploadedMeshTuple = [meshGroup: EncodedMeshGroup, materials: Array<Material>];
+type ResidentTuple = [worker: PoolWorker, materials: Array<Material>];
 
 /**
  * A pool of workers to use for CSG operation with Manifold.
  */
-export class CSGPool {
+export class CSGPool implements CSGExecutor {
     private wantedWorkerCount: number;
     private workerPath: string;
     private manifoldPath: string;
     private workers: WorkerArray | null = null;
     private nextJobID = 0;
     private jobs = new Map<number, JobTuple>();
+    private queue = new Array<QueuedJobTuple>();
     private disposed = false;
     private initLock: Array<CallableFunction> | null = null;
+    private options: CSGPoolOptions;
+    private nextWorkerDisplayID = 0;
+    private pendingWorkerCount = 0;
+    private deadWorkerCount = 0;
+    private respawnAttempts = 0;
+    private respawnTimeouts = new Set<ReturnType<typeof setTimeout>>();
+    private nextMeshHandleID = 0;
+    private uploadedMeshes = new Map<number, UploadedMeshTuple>();
+    private residents = new Map<number, ResidentTuple>();
+    private useSharedMemory: boolean;
+    private environment: WorkerEnvironment;
 
     /**
      * Create a new pool of workers. Workers will only be initialized on the
@@ -36,40 +68,126 @@ export class CSGPool {
      * @param workerCount - The wanted amount of workers. Note that this is a target, not a requirement. If all but one worker fails to be created, no error will be thrown.
      * @param workerPath - The path to the Gypsum<->Manifold worker script. Points to "gypsum-manifold.worker.min.js" by default.
      * @param manifoldPath - The path to the Manifold WASM bindings library. Points to "manifold.js" by default.
+     * @param options - Optional arguments for the pool, such as how crashed workers are respawned.
      */
-    constructor(workerCount: number | null = null, workerPath = 'gypsum-manifold.worker.min.js', manifoldPath = 'manifold.js') {
+    constructor(workerCount: number | null = null, workerPath = 'gypsum-manifold.worker.min.js', manifoldPath = 'manifold.js', options: CSGPoolOptions = {}) {
+        this.environment = options.environment ?? new BrowserWorkerEnvironment();
         this.wantedWorkerCount = Math.max(
-            1, workerCount ?? Math.ceil(navigator.hardwareConcurrency / 2)
+            1, workerCount ?? Math.ceil(this.environment.hardwareConcurrency / 2)
         );
         this.workerPath = workerPath;
         this.manifoldPath = manifoldPath;
+        this.options = options;
+        this.useSharedMemory = (options.sharedMemory ?? false)
+            && this.environment.sharedMemory;
+    }
+
+    /**
+     * Are meshes exchanged with workers via SharedArrayBuffers? Only true if
+     * {@link CSGPoolOptions#sharedMemory} is enabled and the
+     * {@link WorkerEnvironment} supports shared memory, which, in browsers,
+     * requires cross-origin isolation. If false, buffers are transferred
+     * instead.
+     */
+    get sharedMemory(): boolean {
+        return this.useSharedMemory;
+    }
+
+    /**
+     * The current state of the workers in this pool. Use
+     * {@link CSGPoolOptions#onHealthChange} to be notified of changes.
+     */
+    get health(): CSGPoolHealth {
+        return {
+            readyWorkers: this.workers?.length ?? 0,
+            pendingWorkers: this.pendingWorkerCount + this.respawnTimeouts.size,
+            wantedWorkers: this.wantedWorkerCount,
+            deadWorkers: this.deadWorkerCount,
+        };
+    }
+
+    private notifyHealthChange() {
+        if (this.options.onHealthChange) {
+            this.options.onHealthChange(this.health);
+        }
     }
 
     private terminateWorkers() {
+        // XXX workers are hard-terminated instead of being asked to terminate,
+        // since they would only handle the request after their running job
         if (this.workers) {
             for (const [worker, _jobCount] of this.workers) {
-                worker.postMessage({ type: 'terminate' });
+                worker.terminate();
             }
+
+            this.workers.splice(0, this.workers.length);
         }
     }
 
     /**
      * Destroys all resources associated with this pool. All jobs assigned to
-     * this pool are rejected, and all workers assigned to this pool are
-     * terminated. Does nothing if the pool is already disposed.
+     * this pool are rejected, including running jobs, and all workers
+     * assigned to this pool are terminated immediately. Does nothing if the
+     * pool is already disposed.
      */
     dispose() {
+        for (const timeout of this.respawnTimeouts) {
+            clearTimeout(timeout);
+        }
+
+        this.respawnTimeouts.clear();
         this.terminateWorkers();
+        this.rejectQueuedJobs(new Error('CSGPool was disposed before job could be dispatched'));
+
+        // only running jobs are left, and their workers were terminated
+        const reason = new Error('CSGPool was disposed before job could finish');
+        for (const job of this.jobs.values()) {
+            this.clearJobTimer(job);
+            job[1](reason);
+        }
+
+        this.jobs.clear();
+        this.uploadedMeshes.clear();
+        this.residents.clear();
         this.disposed = true;
     }
 
-    private async initializeSingle(displayID: number): Promise<void> {
-        const worker = new Worker(this.workerPath, { name: `manifold-worker-${displayID}` });
+    private rejectQueuedJobs(reason: unknown) {
+        for (const [jobID, _priority, _request, _transfer, _retriesLeft, _timeout, _meshHandles, _residentHandles] of this.queue) {
+            const job = this.jobs.get(jobID);
+            if (job) {
+                this.jobs.delete(jobID);
+                job[1](reason);
+            }
+        }
+
+        this.queue.splice(0, this.queue.length);
+    }
+
+    private async initializeSingle(): Promise<void> {
+        const displayID = this.nextWorkerDisplayID++;
 
         return new Promise((resolve, reject) => {
             let stage = 0;
-            worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-                switch(event.data.type) {
+            const handleDeath = (reason: string) => {
+                if (stage === 3) {
+                    return;
+                } else if (stage < 2) {
+                    this.pendingWorkerCount--;
+                }
+
+                stage = 3;
+                this.removeWorker(worker, reason, true);
+                reject(new Error(reason));
+            };
+
+            const onError = (message: string) => {
+                console.error(`Uncaught error in worker ${displayID}:`, message);
+                handleDeath('Worker crashed before job could finish');
+            };
+
+            const onMessage = (response: WorkerResponse) => {
+                switch(response.type) {
                 case 'created':
                     if (stage === 0) {
                         stage++;
@@ -84,83 +202,129 @@ export class CSGPool {
                 case 'ready':
                     if (stage === 1) {
                         stage++;
+                        this.pendingWorkerCount--;
+
+                        if (this.disposed) {
+                            // pool was disposed while this worker was being
+                            // respawned
+                            stage = 3;
+                            worker.terminate();
+                            reject(new Error('CSGPool was disposed while worker was being initialized'));
+                            break;
+                        }
+
+                        this.respawnAttempts = 0;
+                        (this.workers as WorkerArray).push([worker, 0, new Set()]);
                         resolve();
-                        (this.workers as WorkerArray).push([worker, 0]);
+                        this.notifyHealthChange();
+                        this.processQueue();
                     } else {
                         console.warn('Unexpected "ready" message from worker. Ignored');
                     }
                     break;
+                case 'crash':
+                    console.error(`Worker ${displayID} crashed:`, response.error);
+                    handleDeath('Worker crashed before job could finish');
+                    break;
                 case 'terminated':
+                    handleDeath('Worker terminated before job could finish');
+                    break;
+                case 'cancelled':
                 {
-                    // remove worker
-                    let workerID: number | null = null;
-                    if (this.workers) {
-                        for (const [i, [otherWorker, _jobCount]] of this.workers.entries()) {
-                            if (otherWorker === worker) {
-                                this.workers.splice(i, 1);
-                                workerID = i;
-                                break;
-                            }
-                        }
+                    // XXX the job was already rejected when it was cancelled,
+                    // so there is nothing else to do other than freeing it
+                    const jobID = response.jobID;
+                    if (!this.finishJob(jobID)) {
+                        console.warn(`Ignored invalid cancelled job ID (${jobID})`);
                     }
-
-                    // reject already dispatched jobs. if a job is assigned to
-                    // a worker with an id higher than this worker's, then
-                    // decrement the id to correct it
-                    const rejectedJobs: Array<number> = [];
-                    for (const [jobID, job] of this.jobs) {
-                        const jobWorkerID = job[4];
-
-                        if (workerID === jobWorkerID) {
-                            rejectedJobs.unshift(jobID);
-                        } else if (workerID !== null && workerID < jobWorkerID) {
-                            job[4]--;
-                        }
+                    break;
+                }
+                case 'progress':
+                {
+                    const job = this.jobs.get(response.jobID);
+                    if (!job) {
+                        // XXX jobs can be cancelled while they are running
+                        break;
                     }
 
-                    for (const jobID of rejectedJobs) {
-                        (this.jobs.get(jobID) as JobTuple)[1](
-                            new Error('Worker terminated before job could finish')
-                        );
-                        this.jobs.delete(jobID);
+                    const [_jobResolve, _jobReject, _engine, _materials, _jobWorkerID, signal, _retry, _timer, onProgress] = job;
+                    if (onProgress && !(signal && signal.aborted)) {
+                        onProgress(response.evaluated, response.total);
                     }
-
-                    worker.terminate();
-                    reject();
                     break;
                 }
                 case 'result':
                 {
-                    const jobID = event.data.jobID;
-                    const job = this.jobs.get(jobID);
+                    const jobID = response.jobID;
+                    const job = this.finishJob(jobID);
                     if (!job) {
-                        console.warn(`Ignored invalid job ID (${event.data.jobID})`);
+                        console.warn(`Ignored invalid job ID (${response.jobID})`);
                         break;
                     }
 
-                    this.jobs.delete(jobID);
+                    const [jobResolve, jobReject, engine, materials, _jobWorkerID, signal, _retry, _timer] = job;
+                    if (signal && signal.aborted) {
+                        // job was cancelled while it was running. the job was
+                        // already rejected, so ignore the result. note that we
+                        // intentionally don't decode the result so that no
+                        // meshes are leaked. resident manifolds are released
+                        // for the same reason
+                        if (response.success) {
+                            this.releaseResidentResults(worker, response.result);
+                        }
 
-                    const [jobResolve, jobReject, engine, materials, _jobWorkerID] = job;
-                    if (event.data.success) {
-                        const [resType, resValue] = event.data.result;
+                        break;
+                    }
 
-                        if (resType === WorkerResultType.MeshGroup) {
-                            jobResolve(MeshGroup.fromEncodedMeshGroup(engine, resValue, materials));
-                        } else {
-                            jobResolve(resValue);
-                        }
+                    if (response.success) {
+                        jobResolve(this.decodeResult(engine, materials, worker, response.result));
                     } else {
-                        jobReject(event.data.error);
+                        jobReject(response.error);
                     }
                     break;
                 }
                 default:
-                    console.warn('Unexpected message from worker:', event.data);
+                    console.warn('Unexpected message from worker:', response);
                 }
-            }
+            };
+
+            const worker = this.environment.createWorker(this.workerPath, `manifold-worker-${displayID}`, onMessage, onError);
+            this.pendingWorkerCount++;
         })
     }
 
+    private decodeResult(engine: WonderlandEngine | MeshBackend, materials: Array<Material>, worker: PoolWorker, result: WorkerResult): JobResult | Array<JobResult> {
+        const [resType, resValue] = result;
+
+        if (resType === WorkerResultType.MeshGroup) {
+            return MeshGroup.fromEncodedMeshGroup(engine, resValue, materials);
+        } else if (resType === WorkerResultType.MeshGroupList) {
+            return resValue.map((meshGroup) => MeshGroup.fromEncodedMeshGroup(engine, meshGroup, materials));
+        } else if (resType === WorkerResultType.Resident) {
+            this.residents.set(resValue, [worker, materials]);
+            return new ResidentManifold(this, resValue);
+        } else if (resType === WorkerResultType.Batch) {
+            // XXX batches are never nested, so this cast is safe
+            return resValue.map((batchResult) => this.decodeResult(engine, materials, worker, batchResult) as JobResult);
+        } else {
+            return resValue;
+        }
+    }
+
+    private releaseResidentResults(worker: PoolWorker, result: WorkerResult) {
+        const [resType, resValue] = result;
+
+        if (resType === WorkerResultType.Resident) {
+            worker.postMessage(<WorkerRequest>{
+                type: 'release', handle: resValue
+            });
+        } else if (resType === WorkerResultType.Batch) {
+            for (const batchResult of resValue) {
+                this.releaseResidentResults(worker, batchResult);
+            }
+        }
+    }
+
     private async initializeImpl(): Promise<void> {
         if (this.disposed) {
             throw new Error('Disposed CSGPools cannot be initialized');
@@ -170,36 +334,356 @@ export class CSGPool {
         const promises = new Array<Promise<unknown>>();
 
         for (let i = 0; i < this.wantedWorkerCount; i++) {
-            promises.push(this.initializeSingle(i));
+            promises.push(this.initializeSingle());
         }
 
+        this.notifyHealthChange();
         await Promise.allSettled(promises);
 
+        if (this.disposed) {
+            this.terminateWorkers();
+            throw new Error('CSGPool was disposed while it was being initialized');
+        }
+
         if (this.workers.length === 0) {
             throw new Error('No worker was successfuly created');
         }
+    }
 
-        if (this.disposed) {
-            this.terminateWorkers();
-            throw new Error('CSGPool was disposed while it was being initialized');
+    private removeWorker(worker: PoolWorker, reason: string, unexpected: boolean) {
+        // remove worker
+        let workerID: number | null = null;
+        if (this.workers) {
+            for (const [i, [otherWorker, _jobCount]] of this.workers.entries()) {
+                if (otherWorker === worker) {
+                    this.workers.splice(i, 1);
+                    workerID = i;
+                    break;
+                }
+            }
+        }
+
+        // find already dispatched jobs. if a job is assigned to a worker with
+        // an id higher than this worker's, then decrement the id to correct it
+        const orphanedJobs: Array<number> = [];
+        for (const [jobID, job] of this.jobs) {
+            const jobWorkerID = job[4];
+
+            if (workerID === null || jobWorkerID === null) {
+                // worker was never added to the pool, or job is still queued
+                continue;
+            } else if (workerID === jobWorkerID) {
+                orphanedJobs.push(jobID);
+            } else if (workerID < jobWorkerID) {
+                job[4] = jobWorkerID - 1;
+            }
+        }
+
+        // re-queue orphaned jobs if they still have their inputs and retries
+        // left, otherwise, reject them
+        for (const jobID of orphanedJobs) {
+            const job = this.jobs.get(jobID) as JobTuple;
+            const signal = job[5];
+            const retry = job[6];
+            this.clearJobTimer(job);
+
+            if (retry && retry[4] > 0 && !this.disposed && !(signal && signal.aborted)) {
+                retry[4]--;
+                job[4] = null;
+                job[6] = null;
+                this.insertIntoQueue(retry);
+            } else {
+                this.jobs.delete(jobID);
+                job[1](new Error(reason));
+            }
+        }
+
+        // resident manifolds are lost when their worker dies
+        for (const [handle, [residentWorker, _materials]] of this.residents) {
+            if (residentWorker === worker) {
+                this.residents.delete(handle);
+            }
+        }
+
+        worker.terminate();
+
+        // workers that were terminated on purpose, such as because of a job
+        // timeout, didn't fail, so they are replaced without a backoff and
+        // aren't counted as dead
+        if (unexpected) {
+            this.deadWorkerCount++;
+        }
+
+        if (!this.disposed && (this.options.respawnWorkers ?? true)) {
+            this.scheduleRespawn(unexpected);
+        }
+
+        // queued jobs can't be dispatched if there are no workers left
+        if (this.workers && this.workers.length === 0 && this.pendingWorkerCount === 0 && this.respawnTimeouts.size === 0) {
+            this.rejectQueuedJobs(new Error(unexpected ? 'All workers died before job could be dispatched' : 'All workers were terminated before job could be dispatched'));
+        }
+
+        this.notifyHealthChange();
+        this.processQueue();
+    }
+
+    private scheduleRespawn(backoff: boolean) {
+        const workerCount = (this.workers?.length ?? 0) + this.pendingWorkerCount + this.respawnTimeouts.size;
+        if (workerCount >= this.wantedWorkerCount) {
+            return;
+        }
+
+        let delay = 0;
+        if (backoff) {
+            if (this.respawnAttempts >= (this.options.maxRespawnAttempts ?? 5)) {
+                console.warn('Too many failed attempts at respawning workers. No more workers will be respawned');
+                return;
+            }
+
+            // exponential backoff
+            delay = Math.min(
+                (this.options.respawnDelay ?? 1000) * Math.pow(2, this.respawnAttempts),
+                this.options.maxRespawnDelay ?? 30000,
+            );
+
+            this.respawnAttempts++;
+        }
+
+        const timeout = setTimeout(() => {
+            this.respawnTimeouts.delete(timeout);
+
+            if (!this.disposed) {
+                this.initializeSingle().catch(() => {
+                    // XXX failures are handled by the worker's death handler,
+                    // which schedules the next respawn attempt
+                });
+                this.notifyHealthChange();
+            }
+        }, delay);
+
+        this.respawnTimeouts.add(timeout);
+    }
+
+    private finishJob(jobID: number): JobTuple | null {
+        const job = this.jobs.get(jobID);
+        if (!job) {
+            return null;
+        }
+
+        this.jobs.delete(jobID);
+        this.clearJobTimer(job);
+
+        const workerID = job[4];
+        if (this.workers && workerID !== null) {
+            const worker = this.workers[workerID];
+            if (worker) {
+                worker[1]--;
+                this.processQueue();
+            }
+        }
+
+        return job;
+    }
+
+    private clearJobTimer(job: JobTuple) {
+        const timer = job[7];
+        if (timer !== null) {
+            clearTimeout(timer);
+            job[7] = null;
+        }
+    }
+
+    private timeoutJob(jobID: number, timeout: number) {
+        const job = this.jobs.get(jobID);
+        if (!job) {
+            return;
+        }
+
+        // reject job and hard-terminate the worker running it, since there is
+        // no other way to stop a running job. the worker will be respawned
+        this.jobs.delete(jobID);
+        job[7] = null;
+        job[1](new CSGTimeoutError(timeout));
+        this.terminateJobWorker(job, 'Worker was terminated because of a job timeout');
+    }
+
+    private terminateCancelledJob(jobID: number) {
+        const job = this.jobs.get(jobID);
+        if (!job) {
+            return;
+        }
+
+        // the worker didn't stop the cancelled job in time. the job was
+        // already rejected; it's removed from the job list when the worker is
+        job[7] = null;
+        this.terminateJobWorker(job, 'Worker was terminated because a cancelled job did not stop in time');
+    }
+
+    private terminateJobWorker(job: JobTuple, reason: string) {
+        const workerID = job[4];
+        if (this.workers && workerID !== null) {
+            const worker = this.workers[workerID];
+            if (worker) {
+                this.removeWorker(worker[0], reason, false);
+            }
         }
     }
 
-    private getBestWorker(): [bestWorkerIdx: number, bestWorker: WorkerTuple] {
-        const workers = this.workers as WorkerArray;
-        let bestWorkerIdx = 0;
-        let bestWorker = workers[0];
+    private cancelJob(jobID: number, reason: unknown) {
+        const job = this.jobs.get(jobID);
+        if (!job) {
+            // job was not queued yet, or is already finished
+            return;
+        }
+
+        const workerID = job[4];
+        if (workerID === null) {
+            // job is still in the queue. remove it from the queue
+            for (let i = 0; i < this.queue.length; i++) {
+                if (this.queue[i][0] === jobID) {
+                    this.queue.splice(i, 1);
+                    break;
+                }
+            }
+
+            this.jobs.delete(jobID);
+            this.clearJobTimer(job);
+            job[1](reason);
+            return;
+        }
 
-        for (let i = 1; i < workers.length; i++) {
-            const thisWorker = workers[i];
+        // reject job now, but only remove it from the job list when the worker
+        // stops the job or finishes it, so that the worker isn't given another
+        // job while it's still busy
+        job[1](reason);
 
-            if (thisWorker[1] < bestWorker[1]) {
-                bestWorkerIdx = i;
-                bestWorker = thisWorker;
+        if (this.workers) {
+            const worker = this.workers[workerID];
+            if (worker) {
+                worker[0].postMessage(<WorkerRequest>{ type: 'cancel', jobID });
             }
         }
 
-        return [bestWorkerIdx, bestWorker];
+        // workers only stop jobs between nodes of the tree, so a single slow
+        // operation can keep the worker busy. the job's timeout is replaced
+        // with a grace period, after which the worker is hard-terminated
+        this.clearJobTimer(job);
+        job[7] = setTimeout(() => this.terminateCancelledJob(jobID), this.options.cancelGracePeriod ?? 1000);
+    }
+
+    private getIdleWorker(pinnedWorker: PoolWorker | null = null): [idleWorkerIdx: number, idleWorker: WorkerTuple] | null {
+        if (this.workers) {
+            for (const [i, worker] of this.workers.entries()) {
+                if (worker[1] === 0 && (pinnedWorker === null || worker[0] === pinnedWorker)) {
+                    return [i, worker];
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private insertIntoQueue(queuedJob: QueuedJobTuple) {
+        // keep the queue sorted by descending priority. jobs with the same
+        // priority are dispatched in the order they were queued
+        const priority = queuedJob[1];
+        let i = this.queue.length;
+        while (i > 0 && this.queue[i - 1][1] < priority) {
+            i--;
+        }
+
+        this.queue.splice(i, 0, queuedJob);
+    }
+
+    private enqueueJob(jobID: number, priority: number, request: WorkerRequest, transfer: Array<Transferable>, retries: number, timeout: number | null, meshHandles: Array<number>, residentHandles: Array<number>) {
+        this.insertIntoQueue([jobID, priority, request, transfer, retries, timeout, meshHandles, residentHandles]);
+        this.processQueue();
+    }
+
+    private processQueue() {
+        let i = 0;
+        while (i < this.queue.length) {
+            const queuedJob = this.queue[i];
+            const [jobID, _priority, request, transfer, retriesLeft, timeout, meshHandles, residentHandles] = queuedJob;
+            const job = this.jobs.get(jobID);
+            if (!job) {
+                console.warn(`Ignored invalid queued job ID (${jobID})`);
+                this.queue.splice(i, 1);
+                continue;
+            }
+
+            let missingHandle = false;
+            for (const handle of meshHandles) {
+                if (!this.uploadedMeshes.has(handle)) {
+                    missingHandle = true;
+                    break;
+                }
+            }
+
+            for (const handle of residentHandles) {
+                if (!this.residents.has(handle)) {
+                    missingHandle = true;
+                    break;
+                }
+            }
+
+            if (missingHandle) {
+                this.queue.splice(i, 1);
+                this.jobs.delete(jobID);
+                job[1](new Error('A mesh handle used by the job was released, or its worker died, before the job could be dispatched'));
+                continue;
+            }
+
+            // jobs that use resident manifolds can only run in the worker that
+            // has them. skip them if that worker is busy, so that other jobs
+            // aren't blocked by them
+            let idle;
+            if (residentHandles.length > 0) {
+                idle = this.getIdleWorker((this.residents.get(residentHandles[0]) as ResidentTuple)[0]);
+                if (idle === null) {
+                    i++;
+                    continue;
+                }
+            } else {
+                idle = this.getIdleWorker();
+                if (idle === null) {
+                    return;
+                }
+            }
+
+            this.queue.splice(i, 1);
+            const [idleIdx, idleWorker] = idle;
+            job[4] = idleIdx;
+            idleWorker[1]++;
+
+            // send uploaded meshes that the worker doesn't have yet. the
+            // meshes are copied, since they need to be kept in the pool for
+            // other workers, unless they are in shared memory
+            const workerMeshes = idleWorker[2];
+            for (const handle of meshHandles) {
+                if (!workerMeshes.has(handle)) {
+                    workerMeshes.add(handle);
+                    idleWorker[0].postMessage(<WorkerRequest>{
+                        type: 'upload', handle,
+                        meshGroup: (this.uploadedMeshes.get(handle) as UploadedMeshTuple)[0],
+                    });
+                }
+            }
+
+            if (retriesLeft > 0) {
+                // keep the inputs so that the job can be sent again if the
+                // worker dies. this means that the inputs need to be copied
+                // instead of transferred, unless they are in shared memory
+                job[6] = queuedJob;
+                idleWorker[0].postMessage(request);
+            } else {
+                idleWorker[0].postMessage(request, transfer);
+            }
+
+            if (timeout !== null) {
+                job[7] = setTimeout(() => this.timeoutJob(jobID, timeout), timeout);
+            }
+        }
     }
 
     /**
@@ -238,65 +722,291 @@ export class CSGPool {
             }
         }
 
-        if ((this.workers as WorkerArray).length === 0) {
+        // XXX jobs can still be queued while workers are being respawned
+        if ((this.workers as WorkerArray).length === 0 && this.pendingWorkerCount === 0 && this.respawnTimeouts.size === 0) {
             throw new Error('All workers failed to initialize');
         }
     }
 
+    private encodeMesh(mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh>, materials: Array<Material>, transfer: Array<Transferable>): EncodedMeshGroup {
+        if (mesh instanceof MeshGroup) {
+            return mesh.encode(materials, transfer, this.useSharedMemory);
+        } else if (Array.isArray(mesh)) {
+            return MeshGroup.fromWLEMesh(mesh[0], mesh[1]).encode(materials, transfer, this.useSharedMemory);
+        } else if (typeof mesh.attribute === 'function') {
+            return MeshGroup.fromWLEMesh(mesh).encode(materials, transfer, this.useSharedMemory);
+        } else {
+            throw new Error('Unknown mesh type');
+        }
+    }
+
     /**
-     * Dispatch a tree of CSG operations to the best worker; first worker with
-     * the least amount of running jobs.
+     * Upload a mesh to this pool, so that it can be used in multiple CSG
+     * operations without being encoded and sent to a worker every time. The
+     * mesh is encoded immediately, and is sent to each worker only once, the
+     * first time that the worker runs a job that uses it. Workers keep the
+     * mesh as a manifold until it's released with {@link CSGPool#release}.
      *
-     * @param operation - A tree of CSG operations to send to the worker.
+     * Note that an encoded copy of the mesh is kept in the pool so that it can
+     * be sent to other workers. If the mesh is marked as auto-disposable, then
+     * it's disposed after being encoded.
+     *
+     * @param mesh - The mesh to upload.
+     * @returns A handle which can be used in place of the mesh in CSG operation trees dispatched to this pool.
      */
-    async dispatch(engine: WonderlandEngine, operation: CSGOperation<MeshGroup | Mesh | Submesh>): Promise<JobResult> {
-        // TODO don't double-iterate the tree. find a better way to clean up
-        const autoDisposeList = new Array<MeshGroup>();
-        iterateOpTree<MeshGroup | Mesh | Submesh>(operation, (_context: OpTreeCtx<MeshGroup | Mesh | Submesh>, _key: number | string, mesh: MeshGroup | Mesh | Submesh) => {
-            if (mesh instanceof MeshGroup && mesh.autoDispose) {
-                autoDisposeList.push(mesh);
+    upload(mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh>): MeshHandle {
+        if (this.disposed) {
+            throw new Error('Cannot upload meshes to a disposed CSGPool');
+        }
+
+        const materials = new Array<Material>();
+        // XXX transferables are ignored; the encoded mesh is kept in the pool.
+        // if shared memory is used, then there are no transferables anyway
+        const meshGroup = this.encodeMesh(mesh, materials, []);
+        const id = this.nextMeshHandleID++;
+        this.uploadedMeshes.set(id, [meshGroup, materials]);
+
+        if (mesh instanceof MeshGroup && mesh.autoDispose) {
+            mesh.dispose();
+        }
+
+        return new MeshHandle(this, id);
+    }
+
+    /**
+     * Release a mesh that was uploaded with {@link CSGPool#upload}, or a
+     * {@link ResidentManifold}. The mesh is removed from the pool and from all
+     * workers. Queued jobs that use the mesh are rejected. Does nothing if the
+     * mesh was already released.
+     *
+     * @param handle - The handle of the uploaded mesh or resident manifold.
+     */
+    release(handle: MeshHandle): void {
+        if (handle.pool !== this) {
+            throw new Error('Mesh handle belongs to a different CSGPool');
+        }
+
+        if (handle instanceof ResidentManifold) {
+            const resident = this.residents.get(handle.id);
+            if (resident) {
+                this.residents.delete(handle.id);
+                resident[0].postMessage(<WorkerRequest>{
+                    type: 'release', handle: handle.id
+                });
             }
-        });
+
+            return;
+        }
+
+        if (!this.uploadedMeshes.delete(handle.id)) {
+            return;
+        }
+
+        if (this.workers) {
+            for (const [worker, _jobCount, workerMeshes] of this.workers) {
+                if (workerMeshes.delete(handle.id)) {
+                    worker.postMessage(<WorkerRequest>{
+                        type: 'release', handle: handle.id
+                    });
+                }
+            }
+        }
+    }
+
+    /**
+     * Dispatch a tree of CSG operations to the pool. The job is queued until a
+     * worker is idle; jobs with a higher priority are sent to workers first.
+     * The type of the result depends on the top operation of the tree (see
+     * {@link CSGOperationResult}), or is a {@link ResidentManifold} if the
+     * result is kept resident.
+     *
+     * @param engine - The Wonderland Engine instance, or the mesh backend, used to create the meshes of the result.
+     * @param operation - A tree of CSG operations to send to the worker. Meshes uploaded to this pool can be used in the tree via their {@link MeshHandle}, and results kept resident in a worker via their {@link ResidentManifold}.
+     * @param options - Optional arguments for the dispatch, such as the job's priority, an abort signal for cancelling the job, or whether the result should be kept resident in the worker.
+     */
+    dispatch(engine: WonderlandEngine | MeshBackend, operation: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, options: DispatchOptions & { keepResident: true }): Promise<ResidentManifold>;
+    dispatch<Operation extends CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, operation: Operation, options?: DispatchOptions): Promise<CSGOperationResult<Operation, M>>;
+    async dispatch(engine: WonderlandEngine | MeshBackend, operation: CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, options: DispatchOptions = {}): Promise<JobResult> {
+        return await this.dispatchImpl(engine, [operation], false, options) as JobResult;
+    }
+
+    /**
+     * Dispatch a batch of CSG operation trees to the pool, as a single job.
+     * All trees are evaluated by the same worker in one round-trip, and meshes
+     * that are used in multiple trees are only encoded, sent and converted to
+     * a manifold once. Useful for getting multiple outputs from the same
+     * inputs, such as the result of a subtraction and of an intersection.
+     *
+     * @param engine - The Wonderland Engine instance, or the mesh backend, used to create the meshes of the results.
+     * @param operations - A list of trees of CSG operations to send to the worker. Each tree can be either a geometric or a final operation.
+     * @param options - Optional arguments for the dispatch. Applies to the whole batch; if the results are kept resident, then all trees in the batch must be geometric operations.
+     * @returns A list of results, in the same order as the trees in the batch.
+     */
+    dispatchBatch(engine: WonderlandEngine | MeshBackend, operations: Array<CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, options: DispatchOptions & { keepResident: true }): Promise<Array<ResidentManifold>>;
+    dispatchBatch<Operations extends Array<CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, operations: [...Operations], options?: DispatchOptions): Promise<{ [Index in keyof Operations]: CSGOperationResult<Operations[Index], M> }>;
+    async dispatchBatch(engine: WonderlandEngine | MeshBackend, operations: Array<CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, options: DispatchOptions = {}): Promise<Array<JobResult>> {
+        return await this.dispatchImpl(engine, operations, true, options) as Array<JobResult>;
+    }
+
+    /**
+     * Get the volume of a CSG operation tree or mesh. Shorthand for
+     * dispatching a getProperties operation.
+     */
+    async volume(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<number> {
+        return (await this.dispatch(engine, { operation: 'getProperties', manifold }, options)).volume;
+    }
+
+    /**
+     * Get the surface area of a CSG operation tree or mesh. Shorthand for
+     * dispatching a getProperties operation.
+     */
+    async surfaceArea(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<number> {
+        return (await this.dispatch(engine, { operation: 'getProperties', manifold }, options)).surfaceArea;
+    }
+
+    /**
+     * Get the axis-aligned bounding box of a CSG operation tree or mesh.
+     * Shorthand for dispatching a boundingBox operation.
+     */
+    async boundingBox(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<Box> {
+        return await this.dispatch(engine, { operation: 'boundingBox', manifold }, options);
+    }
+
+    /**
+     * Get the center of mass of a CSG operation tree or mesh, assuming a
+     * uniform density. Shorthand for dispatching a getMassProperties
+     * operation.
+     */
+    async centroid(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<Vec3> {
+        return (await this.dispatch(engine, { operation: 'getMassProperties', manifold }, options)).centroid;
+    }
+
+    /**
+     * Get the mass properties (mass, volume, surface area, center of mass and
+     * inertia tensor) of a CSG operation tree or mesh, assuming a uniform
+     * density. Shorthand for dispatching a getMassProperties operation.
+     *
+     * @param density - The density of the manifold. 1 by default.
+     */
+    async massProperties(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, density = 1, options?: DispatchOptions): Promise<MassProperties> {
+        return await this.dispatch(engine, { operation: 'getMassProperties', manifold, density }, options);
+    }
+
+    /**
+     * Get the minimum distance between the surfaces of two CSG operation trees
+     * or meshes, up to a search length. Shorthand for dispatching a minGap
+     * operation.
+     *
+     * @param searchLength - The maximum distance that is checked. Returned if the manifolds are further apart.
+     */
+    async minGap(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, other: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, searchLength: number, options?: DispatchOptions): Promise<number> {
+        return await this.dispatch(engine, { operation: 'minGap', manifold, other, searchLength }, options);
+    }
+
+    /**
+     * Check whether two CSG operation trees or meshes overlap. Shorthand for
+     * dispatching an overlaps operation.
+     */
+    async overlaps(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, other: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<boolean> {
+        return await this.dispatch(engine, { operation: 'overlaps', manifold, other }, options);
+    }
+
+    private async dispatchImpl(engine: WonderlandEngine | MeshBackend, operations: Array<CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, isBatch: boolean, options: DispatchOptions): Promise<JobResult | Array<JobResult>> {
+        // TODO don't double-iterate the tree. find a better way to clean up
+        const autoDisposeList = new Array<MeshGroup<BackendMesh>>();
+        for (const operation of operations) {
+            iterateOpTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>(operation, (_context: OpTreeCtx<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, _key: number | string, mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle) => {
+                if (mesh instanceof MeshGroup && mesh.autoDispose && autoDisposeList.indexOf(mesh) === -1) {
+                    autoDisposeList.push(mesh);
+                }
+            });
+        }
+
+        const signal = options.signal ?? null;
+        const timeout = options.timeout === undefined ? (this.options.jobTimeout ?? null) : options.timeout;
+        const jobID = this.nextJobID++;
+        const onAbort = () => {
+            this.cancelJob(jobID, (signal as AbortSignal).reason);
+        };
 
         try {
+            // drop job if it was cancelled before it reached a worker
+            signal?.throwIfAborted();
             await this.initialize();
+            signal?.throwIfAborted();
 
             const materials = new Array<Material>();
             const transfer = new Array<Transferable>();
+            const meshHandles = new Array<number>();
+            const residentHandles = new Array<number>();
+            let residentWorker: PoolWorker | null = null;
 
-            iterateOpTree<MeshGroup | Mesh | Submesh>(operation, (context: OpTreeCtx<MeshGroup | Mesh | Submesh>, key: number | string, mesh: MeshGroup | Mesh | Submesh) => {
-                // mesh
-                let converted: EncodedMeshGroup;
-                if (mesh instanceof MeshGroup) {
-                    converted = mesh.encode(materials, transfer);
-                } else if (mesh instanceof Mesh) {
-                    converted = MeshGroup.fromWLEMesh(mesh).encode(materials, transfer);
-                } else if (Array.isArray(mesh) && mesh[0] instanceof Mesh) {
-                    converted = MeshGroup.fromWLEMesh(mesh[0], mesh[1]).encode(materials, transfer);
-                } else {
-                    throw new Error('Unknown mesh type');
+            const encodedOperations = encodeOpTrees(operations, materials, (mesh) => this.encodeMesh(mesh, materials, transfer), (handle) => {
+                if (handle.pool !== this) {
+                    throw new Error('Mesh handle belongs to a different CSGPool');
                 }
 
-                // XXX this cast is safe, as we are converting the context from
-                // containing MeshGroup/Mesh instances into EncodedMeshGroup
-                // instances only
-                (context as unknown as OpTreeCtx<EncodedMeshGroup>)[key] = converted;
+                if (handle instanceof ResidentManifold) {
+                    const resident = this.residents.get(handle.id);
+                    if (!resident) {
+                        throw new Error('Resident manifold was already released, or its worker died');
+                    }
+
+                    if (residentWorker === null) {
+                        residentWorker = resident[0];
+                    } else if (residentWorker !== resident[0]) {
+                        throw new Error('Resident manifolds used in the same job must be in the same worker');
+                    }
+
+                    residentHandles.push(handle.id);
+                    return resident[1];
+                } else {
+                    const uploaded = this.uploadedMeshes.get(handle.id);
+                    if (!uploaded) {
+                        throw new Error('Mesh handle was already released');
+                    }
+
+                    meshHandles.push(handle.id);
+                    return uploaded[1];
+                }
             });
 
-            const [bestIdx, best] = this.getBestWorker();
-            best[1]++;
-            const jobID = this.nextJobID++;
+            // resident manifolds share the ID space of uploaded meshes, since
+            // workers store both in the same map
+            const residents = new Array<number | null>();
+            for (let i = 0; i < operations.length; i++) {
+                residents.push(options.keepResident ? this.nextMeshHandleID++ : null);
+            }
+
+            // only ask for progress reports if they are going to be used
+            const progress = options.onProgress !== undefined;
+            const sharedMemory = this.useSharedMemory;
+
+            let request: WorkerRequest;
+            if (isBatch) {
+                request = {
+                    type: 'batch', jobID, residents, progress, sharedMemory,
+                    operations: encodedOperations,
+                };
+            } else {
+                request = {
+                    type: 'operation', jobID, resident: residents[0], progress, sharedMemory,
+                    operation: encodedOperations[0],
+                };
+            }
 
             return await new Promise((resolve, reject) => {
-                this.jobs.set(jobID, [resolve, reject, engine, materials, bestIdx]);
-                best[0].postMessage(<WorkerRequest>{
-                    type: 'operation', jobID, operation
-                }, transfer);
+                this.jobs.set(jobID, [resolve, reject, engine, materials, null, signal, null, null, options.onProgress ?? null]);
+                this.enqueueJob(jobID, options.priority ?? 0, request, transfer, options.retries ?? 0, timeout, meshHandles, residentHandles);
+
+                signal?.addEventListener('abort', onAbort, { once: true });
             });
         } finally {
+            signal?.removeEventListener('abort', onAbort);
+
             for (const mesh of autoDisposeList) {
                 mesh.dispose();
             }
         }
     }
-}
\ No newline at end of file
+}
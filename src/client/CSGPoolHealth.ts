@@ -0,0 +1,15 @@
+/** A snapshot of the state of the workers in a {@link CSGPool}. */
+export interface CSGPoolHealth {
+    /** The amount of workers that are ready to accept jobs. */
+    readyWorkers: number;
+    /** The amount of workers that are being created or waiting to be respawned. */
+    pendingWorkers: number;
+    /** The amount of workers that the pool is trying to keep alive. */
+    wantedWorkers: number;
+    /**
+     * The amount of workers that crashed or stopped unexpectedly so far.
+     * Workers that were terminated by the pool, such as because of a job
+     * timeout, are not counted.
+     */
+    deadWorkers: number;
+}
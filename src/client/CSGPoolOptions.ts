@@ -0,0 +1,59 @@
+import type { CSGPoolHealth } from './CSGPoolHealth';
+import type { WorkerEnvironment } from './worker-env/WorkerEnvironment';
+
+/** Optional arguments for a {@link CSGPool}. */
+export interface CSGPoolOptions {
+    /**
+     * Should workers that crash or are terminated be replaced with new
+     * workers? True by default.
+     */
+    respawnWorkers?: boolean;
+    /**
+     * The delay, in milliseconds, before the first attempt at respawning a
+     * worker that crashed. The delay is doubled for each consecutive failed
+     * attempt. Workers that were terminated by the pool, such as because of a
+     * job timeout, are replaced immediately. 1000 by default.
+     */
+    respawnDelay?: number;
+    /** The maximum delay, in milliseconds, between respawn attempts. 30000 by default. */
+    maxRespawnDelay?: number;
+    /**
+     * How many consecutive failed respawn attempts are allowed before the
+     * pool stops respawning workers. 5 by default.
+     */
+    maxRespawnAttempts?: number;
+    /**
+     * A callback which is called whenever a worker becomes ready, dies, or is
+     * scheduled to be respawned.
+     */
+    onHealthChange?: (health: CSGPoolHealth) => void;
+    /**
+     * The default timeout, in milliseconds, for jobs dispatched to this pool.
+     * See {@link DispatchOptions#timeout}. No timeout by default.
+     */
+    jobTimeout?: number;
+    /**
+     * How long, in milliseconds, a worker can take to stop a cancelled job
+     * before it's terminated and replaced. Workers can only stop jobs between
+     * nodes of the operation tree, so this stops jobs that are stuck in a
+     * single slow operation. 1000 by default.
+     */
+    cancelGracePeriod?: number;
+    /**
+     * Experimental. Should meshes be encoded into SharedArrayBuffers, and
+     * results be written into shared memory? This avoids cloning meshes when
+     * uploading them to multiple workers or when retrying jobs, but meshes are
+     * still copied when they are encoded, when they are converted to
+     * manifolds, and when results are decoded, so single jobs are not faster
+     * than with transferred buffers. Only used if cross-origin isolation is
+     * available; the pool falls back to transferring buffers otherwise. False
+     * by default. See {@link CSGPool#sharedMemory}.
+     */
+    sharedMemory?: boolean;
+    /**
+     * How workers are created and communicated with. Use a
+     * {@link NodeWorkerEnvironment} to run the pool in Node.js. A
+     * {@link BrowserWorkerEnvironment} by default.
+     */
+    environment?: WorkerEnvironment;
+}
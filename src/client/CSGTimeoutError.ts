@@ -0,0 +1,15 @@
+/**
+ * The error that a job dispatched to a {@link CSGPool} is rejected with if the
+ * job takes longer than its timeout.
+ */
+export class CSGTimeoutError extends Error {
+    /**
+     * Create a new CSG timeout error.
+     *
+     * @param timeout - The timeout of the job, in milliseconds.
+     */
+    constructor(readonly timeout: number) {
+        super(`CSG job took longer than ${timeout} ms and was terminated`);
+        this.name = 'CSGTimeoutError';
+    }
+}
@@ -2,7 +2,9 @@ import { PyramidMesh } from './PyramidMesh';
 import { makeCirclePolyline } from '../client';
 
 import type { PrismPyramidOptions } from './PrismPyramidOptions';
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /** Optional arguments for cone generation. */
 export interface ConeOptions extends PrismPyramidOptions {
@@ -22,15 +24,15 @@ export interface ConeOptions extends PrismPyramidOptions {
  *
  * @category Procedural Mesh
  */
-export class ConeMesh extends PyramidMesh {
+export class ConeMesh<M extends BackendMesh = Mesh> extends PyramidMesh<M> {
     /**
      * Make a new cone. By default, it occupies a 1x1x1 bounding volume (radius
      * 0.5, height 1).
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param options - Optional arguments for cone generation.
      */
-    constructor(engine: WonderlandEngine, options?: ConeOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, options?: ConeOptions) {
         super(
             engine,
             makeCirclePolyline(options?.radius ?? 0.5, false, options?.subDivisions ?? 12),
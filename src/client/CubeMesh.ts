@@ -1,21 +1,23 @@
 import { CuboidMaterialOptions, RectangularCuboidMesh } from './RectangularCuboidMesh';
 
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /**
  * A procedural cube with no sub-divisions.
  *
  * @category Procedural Mesh
  */
-export class CubeMesh extends RectangularCuboidMesh {
+export class CubeMesh<M extends BackendMesh = Mesh> extends RectangularCuboidMesh<M> {
     /**
      * Make a new cube.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param length - The length of the cube.
      * @param options - Optional arguments for the cube.
      */
-    constructor(engine: WonderlandEngine, length: number, options?: CuboidMaterialOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, length: number, options?: CuboidMaterialOptions) {
         super(engine, length, length, length, options);
     }
 }
\ No newline at end of file
@@ -9,7 +9,9 @@ import type { RadialOptions } from './RadialOptions';
 import type { vec2 } from 'gl-matrix';
 import type { MeshBuilder } from './mesh-gen/MeshBuilder';
 import type { CuboidMaterialOptions } from './RectangularCuboidMesh';
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 const THIRD = 1 / 3;
 const NO_UVS: [vec2, vec2, vec2, vec2] = [[0,0],[0,0],[0,0],[0,0]];
@@ -65,19 +67,19 @@ export { CubeSphereOptions };
  *
  * @category Procedural Mesh
  */
-export class CubeSphereMesh extends MeshGroup {
+export class CubeSphereMesh<M extends BackendMesh = Mesh> extends MeshGroup<M> {
     /**
      * Create a new cube sphere. By default, has a radius of 0.5.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param options - Optional arguments for the sphere.
      */
-    constructor(engine: WonderlandEngine, options?: CubeSphereOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, options?: CubeSphereOptions) {
         const subDivs = options?.subDivisions ?? 12;
         const radius = options?.radius ?? 0.5;
         const diameter = radius * 2;
 
-        let builder: MeshBuilder;
+        let builder: MeshBuilder<M>;
         if (options?.equirectangular) {
             builder = makeCuboidBuilder(
                 engine, subDivs, diameter, diameter, diameter, true, false,
@@ -3,7 +3,9 @@ import { PrismMesh } from './PrismMesh';
 
 import type { PrismPyramidOptions } from './PrismPyramidOptions';
 import type { RadialOptions } from './RadialOptions';
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 export interface CylinderOptions extends RadialOptions, PrismPyramidOptions {}
 
@@ -12,14 +14,14 @@ export interface CylinderOptions extends RadialOptions, PrismPyramidOptions {}
  *
  * @category Procedural Mesh
  */
-export class CylinderMesh extends PrismMesh {
+export class CylinderMesh<M extends BackendMesh = Mesh> extends PrismMesh<M> {
     /**
      * Make a new cylinder. By default, it occupies a 1x1x1 bounding volume
      * (radius 0.5, height 1).
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      */
-    constructor(engine: WonderlandEngine, options?: CylinderOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, options?: CylinderOptions) {
         super(
             engine,
             makeCirclePolyline(options?.radius ?? 0.5, false, options?.subDivisions ?? 12),
@@ -0,0 +1,54 @@
+/**
+ * Optional arguments for dispatching a CSG operation to a {@link CSGPool}, or
+ * to another {@link CSGExecutor}.
+ */
+export interface DispatchOptions {
+    /**
+     * The priority of the job. Jobs are queued until a worker is idle, and
+     * jobs with a higher priority are sent to workers before jobs with a lower
+     * priority. Jobs with the same priority are sent in the order they were
+     * dispatched. 0 by default.
+     */
+    priority?: number;
+    /**
+     * How many times the job is sent to another worker if the worker running
+     * it crashes or is terminated. If greater than 0, the job's meshes are
+     * copied to the worker instead of being transferred, so that they can be
+     * sent again, which is slower. 0 by default.
+     */
+    retries?: number;
+    /**
+     * The maximum time, in milliseconds, that the job can take after being
+     * sent to a worker. If the job takes longer, then it is rejected with a
+     * {@link CSGTimeoutError}, and the worker running it is terminated and
+     * replaced. Overrides {@link CSGPoolOptions#jobTimeout}. Pass null to
+     * disable the pool's default timeout for this job.
+     */
+    timeout?: number | null;
+    /**
+     * A signal which can be used to cancel the job. If the job hasn't been
+     * sent to a worker yet, then it is dropped. If the job is already
+     * running, then the worker stops it between nodes of the tree; if a
+     * single operation takes longer than
+     * {@link CSGPoolOptions#cancelGracePeriod}, then the worker is terminated
+     * and replaced instead. In all cases, the job is rejected with the
+     * signal's abort reason immediately.
+     */
+    signal?: AbortSignal;
+    /**
+     * If true, then the resulting manifold is kept in the worker that ran the
+     * job instead of being sent back, and the job resolves to a
+     * {@link ResidentManifold}, which can be used in later CSG operations. The
+     * resident manifold must be released with {@link CSGPool#release}. Only
+     * valid for geometric operations. False by default.
+     */
+    keepResident?: boolean;
+    /**
+     * A callback which is called while the job is running, with the number of
+     * nodes of the operation tree (or batch of trees) that were evaluated, and
+     * the total number of nodes. Useful for loading bars. Progress is reported
+     * at most every 100 milliseconds, and once all nodes were evaluated. If
+     * the job is retried in another worker, then progress starts over.
+     */
+    onProgress?: (evaluated: number, total: number) => void;
+}
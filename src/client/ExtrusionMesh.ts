@@ -10,7 +10,9 @@ import { filterHintMap } from './filter-hintmap';
 import type { CurveFrames } from './curves/curve-frame';
 import type { Vec3 } from 'manifold-3d';
 import type { EdgeList } from './mesh-gen/EdgeList';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 import type { HintOptions } from './HintOptions';
 
 const RIGHT = vec3.fromValues(1, 0, 0);
@@ -104,18 +106,18 @@ function makeBaseUVs(loopLen: number, polyline: Array<vec2>, inputBaseUVs?: Arra
  *
  * @category Procedural Mesh
  */
-export class ExtrusionMesh extends MeshGroup {
+export class ExtrusionMesh<M extends BackendMesh = Mesh> extends MeshGroup<M> {
     /**
      * Create a new extrusion by copying slices along a curve, and connecting
      * points with new faces.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param polyline - A polyline with the slice of the extrusion.
      * @param curvePositions - The positions of each slice of the extrusion.
      * @param curveFrames - The curve frames of each slice of the extrusion. Contains orientation information.
      * @param options - Optional arguments for the extrusion.
      */
-    constructor(engine: WonderlandEngine, polyline: Array<vec2>, curvePositions: Array<vec3>, curveFrames: CurveFrames, options?: ExtrusionOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, polyline: Array<vec2>, curvePositions: Array<vec3>, curveFrames: CurveFrames, options?: ExtrusionOptions) {
         // validate curve
         const pointCount = curvePositions.length;
         const loopLen = polyline.length;
@@ -225,7 +227,7 @@ export class ExtrusionMesh extends MeshGroup {
         const hasSmoothNormals = options?.smoothNormals ?? false;
         const invExtrusionLen = 1 / extrusionLength;
         let segEndLen = 0, segStartV = -1, segEndV = vStart;
-        const builder = new MeshBuilder(engine);
+        const builder = new MeshBuilder<M>(engine);
 
         for (let s = 0, i = 0, j = loopLen; s < segmentCount; s++, i += loopLen, j += loopLen) {
             segEndLen += vec3.distance(curvePositions[s], curvePositions[s + 1]);
@@ -3,7 +3,9 @@ import { vec3 } from 'gl-matrix';
 
 import type { vec2 } from 'gl-matrix';
 import type { SmoothNormalsOptions } from './SmoothNormalsOptions';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /**
  * Optional arguments for a procedural frustum.
@@ -22,17 +24,17 @@ export interface FrustumOptions extends SmoothNormalsOptions {
  *
  * @category Procedural Mesh
  */
-export class FrustumMesh extends BasePrismoidPyramidMesh {
+export class FrustumMesh<M extends BackendMesh = Mesh> extends BasePrismoidPyramidMesh<M> {
     /**
      * Make a new frustum.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param polyline - The polyline for the base.
      * @param apex - The apex point of the frustum.
      * @param height - The height of the frustum. The height is expected to not exceed the apex.
      * @param options - Optional arguments for the frustum generation.
      */
-    constructor(engine: WonderlandEngine, polyline: Array<vec2>, apex: vec3, height: number, options?: FrustumOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, polyline: Array<vec2>, apex: vec3, height: number, options?: FrustumOptions) {
         const baseScale = options?.baseScale ?? 1;
         const apexHeight = Math.abs(apex[1]);
         const topScale = baseScale * height / apexHeight;
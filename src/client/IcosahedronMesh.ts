@@ -5,7 +5,9 @@ import { filterHintMap } from './filter-hintmap';
 
 import type { Tuple } from './misc/Tuple';
 import type { NumRange } from './misc/NumRange';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 import type { HintOptions } from './HintOptions';
 
 /**
@@ -26,14 +28,14 @@ export interface IcosahedronOptions extends HintOptions {
  *
  * @category Procedural Mesh
  */
-export class IcosahedronMesh extends MeshGroup {
+export class IcosahedronMesh<M extends BackendMesh = Mesh> extends MeshGroup<M> {
     /**
      * Make a new icosahedron.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param options - Optional arguments for the generation.
      */
-    constructor(engine: WonderlandEngine, options?: IcosahedronOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, options?: IcosahedronOptions) {
         // make manifold builder populated with icosahedron triangles
         const builder = makeIcosahedronBuilder(engine);
 
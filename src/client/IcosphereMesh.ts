@@ -6,7 +6,9 @@ import { filterHintMap } from './filter-hintmap';
 import type { Tuple } from './misc/Tuple';
 import type { NumRange } from './misc/NumRange';
 import type { RadialOptions } from './RadialOptions';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /** Optional arguments for a procedural icosphere. */
 export interface IcosphereOptions extends RadialOptions {
@@ -28,14 +30,14 @@ export interface IcosphereOptions extends RadialOptions {
  *
  * @category Procedural Mesh
  */
-export class IcosphereMesh extends MeshGroup {
+export class IcosphereMesh<M extends BackendMesh = Mesh> extends MeshGroup<M> {
     /**
      * Create a new icosphere. By default, has a radius of 0.5.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param options - Optional arguments for the sphere.
      */
-    constructor(engine: WonderlandEngine, options?: IcosphereOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, options?: IcosphereOptions) {
         // make manifold builder populated with icosahedron triangles
         const builder = makeIcosahedronBuilder(engine, false);
 
@@ -0,0 +1,306 @@
+import { CSGOperation } from '../common/CSGOperation';
+import { iterateOpTree } from '../common/iterate-operation-tree';
+import { evaluateOpTrees, loadModules } from '../common/evaluate-op-trees';
+import { WorkerResult, WorkerResultType } from '../common/WorkerResponse';
+import { MeshGroup, Submesh } from './MeshGroup';
+import { MeshHandle } from './MeshHandle';
+import { ResidentManifold } from './ResidentManifold';
+import { encodeOpTrees } from './encode-op-trees';
+
+import type { Box, Manifold, ManifoldToplevel, Properties, Vec3 } from 'manifold-3d';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { CSGTree } from '../common/CSGTree';
+import type { CrossSectionContour } from '../common/CrossSectionContour';
+import type { Curvature } from '../common/Curvature';
+import type { EncodedMeshGroup } from '../common/EncodedMeshGroup';
+import type { MassProperties } from '../common/MassProperties';
+import type { OpTreeCtx } from '../common/iterate-operation-tree';
+import type { UploadedMeshMap } from '../common/evaluate-op-trees';
+import type { CSGExecutor } from './CSGExecutor';
+import type { CSGOperationResult } from './CSGOperationResult';
+import type { DispatchOptions } from './DispatchOptions';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+
+type InlineJobResult = MeshGroup<BackendMesh> | Array<MeshGroup<BackendMesh>> | ResidentManifold | boolean | number | Box | Properties | Curvature | MassProperties | Array<CrossSectionContour>;
+
+/**
+ * A {@link CSGExecutor} which evaluates trees of CSG operations in the current
+ * thread, instead of in a pool of workers, using an already loaded instance of
+ * the Manifold library. Errors are thrown with their original stack traces,
+ * and trees can be stepped through in a debugger, which makes this useful for
+ * debugging and for deterministic tests. Has the same API as {@link CSGPool},
+ * but blocks the current thread while trees are evaluated, so it should not be
+ * used for real-time mesh generation.
+ *
+ * Jobs are evaluated as soon as they are dispatched, so priorities and
+ * retries are ignored. Timeouts are also ignored, since evaluation can't be
+ * interrupted; abort signals are only checked before and after a job is
+ * evaluated.
+ */
+export class InlineCSGExecutor implements CSGExecutor {
+    private disposed = false;
+    private nextMeshHandleID = 0;
+    private uploadedMeshes: UploadedMeshMap = new Map();
+    private handleMaterials = new Map<number, Array<Material>>();
+
+    /**
+     * Create a new inline executor.
+     *
+     * @param manifoldModule - The Manifold library instance used for evaluating CSG operations. Its setup method must have already been called.
+     */
+    constructor(readonly manifoldModule: ManifoldToplevel) {}
+
+    /**
+     * Does nothing, since the Manifold library is already loaded. Only
+     * implemented for compatibility with {@link CSGPool#initialize}.
+     */
+    async initialize(): Promise<void> {
+        if (this.disposed) {
+            throw new Error('Cannot initialize a disposed InlineCSGExecutor');
+        }
+    }
+
+    /**
+     * Releases all uploaded meshes and resident manifolds. Does nothing if the
+     * executor is already disposed.
+     */
+    dispose() {
+        for (const handle of Array.from(this.uploadedMeshes.keys())) {
+            this.releaseUploadedMesh(handle);
+        }
+
+        this.disposed = true;
+    }
+
+    private releaseUploadedMesh(handle: number) {
+        const uploaded = this.uploadedMeshes.get(handle);
+        if (uploaded === undefined) {
+            return;
+        }
+
+        this.uploadedMeshes.delete(handle);
+        this.handleMaterials.delete(handle);
+
+        if (Array.isArray(uploaded)) {
+            uploaded[0].delete();
+        }
+    }
+
+    private encodeMesh(mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh>, materials: Array<Material>): EncodedMeshGroup {
+        // XXX buffers are never transferred, since the encoded mesh doesn't
+        // leave the current thread
+        if (mesh instanceof MeshGroup) {
+            return mesh.encode(materials, []);
+        } else if (Array.isArray(mesh)) {
+            return MeshGroup.fromWLEMesh(mesh[0], mesh[1]).encode(materials, []);
+        } else if (typeof mesh.attribute === 'function') {
+            return MeshGroup.fromWLEMesh(mesh).encode(materials, []);
+        } else {
+            throw new Error('Unknown mesh type');
+        }
+    }
+
+    /**
+     * Upload a mesh to this executor, so that it can be used in multiple CSG
+     * operations without being encoded every time. The mesh is converted to a
+     * manifold the first time it's used, and is kept until it's released
+     * with {@link InlineCSGExecutor#release}. If the mesh is marked as
+     * auto-disposable, then it's disposed after being encoded.
+     *
+     * @param mesh - The mesh to upload.
+     * @returns A handle which can be used in place of the mesh in CSG operation trees dispatched to this executor.
+     */
+    upload(mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh>): MeshHandle {
+        if (this.disposed) {
+            throw new Error('Cannot upload meshes to a disposed InlineCSGExecutor');
+        }
+
+        const materials = new Array<Material>();
+        const meshGroup = this.encodeMesh(mesh, materials);
+        const id = this.nextMeshHandleID++;
+        this.uploadedMeshes.set(id, meshGroup);
+        this.handleMaterials.set(id, materials);
+
+        if (mesh instanceof MeshGroup && mesh.autoDispose) {
+            mesh.dispose();
+        }
+
+        return new MeshHandle(this, id);
+    }
+
+    /**
+     * Release a mesh that was uploaded with {@link InlineCSGExecutor#upload},
+     * or a {@link ResidentManifold}. Does nothing if the mesh was already
+     * released.
+     *
+     * @param handle - The handle of the uploaded mesh or resident manifold.
+     */
+    release(handle: MeshHandle): void {
+        if (handle.pool !== this) {
+            throw new Error('Mesh handle belongs to a different CSGExecutor');
+        }
+
+        this.releaseUploadedMesh(handle.id);
+    }
+
+    /**
+     * Evaluate a tree of CSG operations immediately, in the current thread.
+     * See {@link CSGPool#dispatch}.
+     *
+     * @param engine - The Wonderland Engine instance, or the mesh backend, used to create the meshes of the result.
+     * @param operation - A tree of CSG operations. Meshes uploaded to this executor can be used in the tree via their {@link MeshHandle}, and results kept resident via their {@link ResidentManifold}.
+     * @param options - Optional arguments for the dispatch, such as an abort signal for cancelling the job, or whether the result should be kept resident.
+     */
+    dispatch(engine: WonderlandEngine | MeshBackend, operation: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, options: DispatchOptions & { keepResident: true }): Promise<ResidentManifold>;
+    dispatch<Operation extends CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, operation: Operation, options?: DispatchOptions): Promise<CSGOperationResult<Operation, M>>;
+    async dispatch(engine: WonderlandEngine | MeshBackend, operation: CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, options: DispatchOptions = {}): Promise<InlineJobResult> {
+        return await this.dispatchImpl(engine, [operation], false, options) as InlineJobResult;
+    }
+
+    /**
+     * Evaluate a batch of CSG operation trees immediately, in the current
+     * thread. See {@link CSGPool#dispatchBatch}.
+     *
+     * @param engine - The Wonderland Engine instance, or the mesh backend, used to create the meshes of the results.
+     * @param operations - A list of trees of CSG operations. Each tree can be either a geometric or a final operation.
+     * @param options - Optional arguments for the dispatch. Applies to the whole batch; if the results are kept resident, then all trees in the batch must be geometric operations.
+     * @returns A list of results, in the same order as the trees in the batch.
+     */
+    dispatchBatch(engine: WonderlandEngine | MeshBackend, operations: Array<CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, options: DispatchOptions & { keepResident: true }): Promise<Array<ResidentManifold>>;
+    dispatchBatch<Operations extends Array<CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, operations: [...Operations], options?: DispatchOptions): Promise<{ [Index in keyof Operations]: CSGOperationResult<Operations[Index], M> }>;
+    async dispatchBatch(engine: WonderlandEngine | MeshBackend, operations: Array<CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, options: DispatchOptions = {}): Promise<Array<InlineJobResult>> {
+        return await this.dispatchImpl(engine, operations, true, options) as Array<InlineJobResult>;
+    }
+
+    /** See {@link CSGPool#volume}. */
+    async volume(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<number> {
+        return (await this.dispatch(engine, { operation: 'getProperties', manifold }, options)).volume;
+    }
+
+    /** See {@link CSGPool#surfaceArea}. */
+    async surfaceArea(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<number> {
+        return (await this.dispatch(engine, { operation: 'getProperties', manifold }, options)).surfaceArea;
+    }
+
+    /** See {@link CSGPool#boundingBox}. */
+    async boundingBox(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<Box> {
+        return await this.dispatch(engine, { operation: 'boundingBox', manifold }, options);
+    }
+
+    /** See {@link CSGPool#centroid}. */
+    async centroid(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<Vec3> {
+        return (await this.dispatch(engine, { operation: 'getMassProperties', manifold }, options)).centroid;
+    }
+
+    /** See {@link CSGPool#massProperties}. */
+    async massProperties(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, density = 1, options?: DispatchOptions): Promise<MassProperties> {
+        return await this.dispatch(engine, { operation: 'getMassProperties', manifold, density }, options);
+    }
+
+    /** See {@link CSGPool#minGap}. */
+    async minGap(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, other: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, searchLength: number, options?: DispatchOptions): Promise<number> {
+        return await this.dispatch(engine, { operation: 'minGap', manifold, other, searchLength }, options);
+    }
+
+    /** See {@link CSGPool#overlaps}. */
+    async overlaps(engine: WonderlandEngine | MeshBackend, manifold: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, other: CSGTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle> | MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, options?: DispatchOptions): Promise<boolean> {
+        return await this.dispatch(engine, { operation: 'overlaps', manifold, other }, options);
+    }
+
+    private decodeResult(engine: WonderlandEngine | MeshBackend, materials: Array<Material>, result: WorkerResult): InlineJobResult | Array<InlineJobResult> {
+        const [resType, resValue] = result;
+
+        if (resType === WorkerResultType.MeshGroup) {
+            return MeshGroup.fromEncodedMeshGroup(engine, resValue, materials);
+        } else if (resType === WorkerResultType.MeshGroupList) {
+            return resValue.map((meshGroup) => MeshGroup.fromEncodedMeshGroup(engine, meshGroup, materials));
+        } else if (resType === WorkerResultType.Resident) {
+            this.handleMaterials.set(resValue, materials);
+            return new ResidentManifold(this, resValue);
+        } else if (resType === WorkerResultType.Batch) {
+            // XXX batches are never nested, so this cast is safe
+            return resValue.map((batchResult) => this.decodeResult(engine, materials, batchResult) as InlineJobResult);
+        } else {
+            return resValue;
+        }
+    }
+
+    private async dispatchImpl(engine: WonderlandEngine | MeshBackend, operations: Array<CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, isBatch: boolean, options: DispatchOptions): Promise<InlineJobResult | Array<InlineJobResult>> {
+        const autoDisposeList = new Array<MeshGroup<BackendMesh>>();
+        for (const operation of operations) {
+            iterateOpTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>(operation, (_context: OpTreeCtx<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, _key: number | string, mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle) => {
+                if (mesh instanceof MeshGroup && mesh.autoDispose && autoDisposeList.indexOf(mesh) === -1) {
+                    autoDisposeList.push(mesh);
+                }
+            });
+        }
+
+        const signal = options.signal ?? null;
+        const residents = new Array<number | null>();
+        const allocatedManifolds = new Array<Manifold>();
+
+        try {
+            if (this.disposed) {
+                throw new Error('Cannot dispatch jobs to a disposed InlineCSGExecutor');
+            }
+
+            signal?.throwIfAborted();
+
+            const materials = new Array<Material>();
+            const encodedOperations = encodeOpTrees(operations, materials, (mesh) => this.encodeMesh(mesh, materials), (handle) => {
+                if (handle.pool !== this) {
+                    throw new Error('Mesh handle belongs to a different CSGExecutor');
+                }
+
+                const handleMaterials = this.handleMaterials.get(handle.id);
+                if (!handleMaterials) {
+                    throw new Error('Mesh handle was already released');
+                }
+
+                return handleMaterials;
+            });
+
+            for (let i = 0; i < operations.length; i++) {
+                residents.push(options.keepResident ? this.nextMeshHandleID++ : null);
+            }
+
+            await loadModules(encodedOperations);
+            signal?.throwIfAborted();
+
+            const results = await evaluateOpTrees(
+                this.manifoldModule,
+                encodedOperations,
+                residents,
+                [],
+                allocatedManifolds,
+                this.uploadedMeshes,
+                options.onProgress ?? null,
+            );
+
+            // XXX the signal may have been aborted by a progress callback
+            signal?.throwIfAborted();
+
+            const result: WorkerResult = isBatch ? [WorkerResultType.Batch, results] : results[0];
+            return this.decodeResult(engine, materials, result);
+        } catch(error) {
+            // don't keep results of failed jobs resident, since nothing
+            // refers to them
+            for (const resident of residents) {
+                if (resident !== null) {
+                    this.releaseUploadedMesh(resident);
+                }
+            }
+
+            throw error;
+        } finally {
+            for (const manifold of allocatedManifolds) {
+                manifold.delete();
+            }
+
+            for (const mesh of autoDisposeList) {
+                mesh.dispose();
+            }
+        }
+    }
+}
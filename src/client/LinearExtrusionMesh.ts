@@ -3,23 +3,25 @@ import { ExtrusionMesh } from './ExtrusionMesh';
 import type { vec2, vec3 } from 'gl-matrix';
 import type { CurveFrame } from './curves/curve-frame';
 import type { ExtrusionOptions } from './ExtrusionMesh';
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /**
  * A simple extrusion along the Z direction.
  *
  * @category Procedural Mesh
  */
-export class LinearExtrusionMesh extends ExtrusionMesh {
+export class LinearExtrusionMesh<M extends BackendMesh = Mesh> extends ExtrusionMesh<M> {
     /**
      * Make an extrusion along the Z direction.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param polyline - The slice to use for the extrusion.
      * @param depth - The amount to extrude along the Z direction.
      * @param options - Optional arguments for the extrusion.
      */
-    constructor(engine: WonderlandEngine, polyline: Array<vec2>, depth: number, options?: ExtrusionOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, polyline: Array<vec2>, depth: number, options?: ExtrusionOptions) {
         const positions: Array<vec3> = [[0, 0, 0], [0, 0, depth]];
         const forwardFrame: CurveFrame = depth >= 0
             ? [[0, 1, 0], [-1, 0, 0], [0, 0, 1]]
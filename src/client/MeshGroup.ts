@@ -1,17 +1,21 @@
 import { mat3, mat4, vec3, vec4 } from 'gl-matrix';
 import { getComponentCount } from '../common/getComponentCount';
 import { mergeMapFromWLE } from './mesh-gen/merge-map-from-wle';
-import { MeshIndexType, MeshAttribute, Mesh } from '@wonderlandengine/api';
+import { MeshIndexType, MeshAttribute } from '@wonderlandengine/api';
 import { getHintAttribute } from './mesh-gen/get-hint-attribute';
+import { makeTypedArray } from '../common/make-typed-array';
+import { getMeshBackend } from './mesh-backend/get-mesh-backend';
 
 import type { quat } from 'gl-matrix';
 import type { EncodedMeshGroup } from '../common/EncodedMeshGroup';
 import type { AllowedExtraMeshAttribute } from '../common/AllowedExtraMeshAttribute';
 import type { EncodedSubmesh } from '../common/EncodedSubmesh';
-import type { MeshAttributeAccessor } from '@wonderlandengine/api';
 import type { MergeMap } from '../common/MergeMap';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
 import type { Hint } from '../common/Hint';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
+import type { BackendMeshAttributeAccessor } from './mesh-backend/BackendMeshAttributeAccessor';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
 
 /**
  * Maps a manifold triangle index to a WLE submesh index. The format is:
@@ -26,21 +30,65 @@ import type { Hint } from '../common/Hint';
 export type SubmeshMap = Uint8Array | Uint16Array | Uint32Array;
 
 /**
- * A pair containing a WL.Mesh instance, its assigned WL.Material and an
- * optional list of extra mesh attribute hints.
+ * A pair containing a WL.Mesh instance (or a mesh from another
+ * {@link MeshBackend}), its assigned WL.Material and an optional list of extra
+ * mesh attribute hints.
  *
  * The extra mesh attributes list defines the list of attributes that need to be
  * handled. If none is passed, then all mesh attributes will be handled,
  * including mesh attributes that are potentially not used, since the available
  * attributes are dictated by the existing pipelines, not by each mesh.
+ *
+ * @template {BackendMesh} M - The type of the mesh. WL.Mesh by default.
+ */
+export type Submesh<M extends BackendMesh = Mesh> = [mesh: M, material: Material | null, extraAttributesHint?: Hint];
+
+/**
+ * Flip the winding order of all the triangles in a WLE mesh. Indexed meshes
+ * have their index data modified, while non-indexed meshes have the vertex
+ * data of the triangles swapped. Returns true if vertices were swapped.
  */
-export type Submesh = [mesh: Mesh, material: Material | null, extraAttributesHint?: Hint];
+function flipWinding(mesh: BackendMesh): boolean {
+    const indexData = mesh.indexData;
+    if (indexData !== null) {
+        const indexCount = indexData.length;
+        for (let i = 0; i < indexCount; i += 3) {
+            const temp = indexData[i + 1];
+            indexData[i + 1] = indexData[i + 2];
+            indexData[i + 2] = temp;
+        }
+
+        return false;
+    }
+
+    const vertexCount = mesh.vertexCount;
+    for (const attrType of [MeshAttribute.Position, MeshAttribute.Tangent, MeshAttribute.Normal, MeshAttribute.TextureCoordinate, MeshAttribute.Color]) {
+        const accessor = mesh.attribute(attrType);
+        if (!accessor) {
+            continue;
+        }
+
+        const componentCount = getComponentCount(attrType);
+        const a = new Float32Array(componentCount);
+        const b = new Float32Array(componentCount);
+        for (let i = 0; i < vertexCount; i += 3) {
+            accessor.get(i + 1, a);
+            accessor.get(i + 2, b);
+            accessor.set(i + 1, b);
+            accessor.set(i + 2, a);
+        }
+    }
+
+    return true;
+}
 
 /**
  * A helper class which acts as a single mesh, but contains a list of submeshes,
  * where each submesh is assigned a different material.
+ *
+ * @template {BackendMesh} M - The type of the submeshes' meshes. WL.Mesh by default, but can be the mesh type of another {@link MeshBackend}.
  */
-export class MeshGroup {
+export class MeshGroup<M extends BackendMesh = Mesh> {
     /**
      * If this flag is set, then {@link MeshGroup#dispose} will be called after
      * a CSG operation is done. It's recommended to call {@link MeshGroup#mark}
@@ -61,7 +109,7 @@ export class MeshGroup {
      * @param submeshes - The list of submeshes to assign to this group.
      * @param premadeMergeMap - A merge map that defines how to create a manifold from the submeshes.
      */
-    constructor(protected submeshes: Array<Submesh> = [], protected premadeMergeMap: MergeMap | null = null) {}
+    constructor(protected submeshes: Array<Submesh<M>> = [], protected premadeMergeMap: MergeMap | null = null) {}
 
     /**
      * Create a new MeshGroup from a WL.Mesh.
@@ -71,17 +119,22 @@ export class MeshGroup {
      * be modified here as well, possibly corrupting the mesh. To avoid issues
      * with this, do a deep clone of the inputs
      *
-     * @param mesh - A WL.Mesh instance.
+     * @param mesh - A WL.Mesh instance, or a mesh from another {@link MeshBackend}.
      * @param material - A WL.Material instance. Null by default.
      */
-    static fromWLEMesh(mesh: Mesh, material: Material | null = null) {
+    static fromWLEMesh<M extends BackendMesh = Mesh>(mesh: M, material: Material | null = null): MeshGroup<M> {
         return new MeshGroup([[ mesh, material ]]);
     }
 
-    /** Create a new MeshGroup from an EncodedMeshGroup. */
-    static fromEncodedMeshGroup(engine: WonderlandEngine, encodedMeshGroup: EncodedMeshGroup, materials: Array<Material>): MeshGroup {
+    /**
+     * Create a new MeshGroup from an EncodedMeshGroup. Meshes are created with
+     * the given mesh backend, or with Wonderland Engine meshes if a
+     * Wonderland Engine instance is passed.
+     */
+    static fromEncodedMeshGroup<M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, encodedMeshGroup: EncodedMeshGroup, materials: Array<Material>): MeshGroup<M> {
         // decode submeshes
-        const submeshes = new Array<Submesh>();
+        const backend = getMeshBackend(engine);
+        const submeshes = new Array<Submesh<M>>();
         try {
             for (const encSubmesh of encodedMeshGroup.submeshes) {
                 // get mapped submesh material
@@ -121,7 +174,7 @@ export class MeshGroup {
                 }
 
                 // make mesh
-                const mesh = new Mesh(engine, {
+                const mesh = backend.createMesh({
                     indexData, indexType, vertexCount
                 });
                 submeshes.push([ mesh, material ]);
@@ -157,8 +210,8 @@ export class MeshGroup {
      * Create a new empty MeshGroup. Useless on its own, only ever appears as a
      * fallback for CSG operations with no result.
      */
-    static makeEmpty() {
-        return new MeshGroup(
+    static makeEmpty<M extends BackendMesh = Mesh>(): MeshGroup<M> {
+        return new MeshGroup<M>(
             [],
             [new Uint32Array(), new Uint32Array()],
         );
@@ -172,7 +225,7 @@ export class MeshGroup {
     get mergeMap(): MergeMap {
         if (!this.premadeMergeMap) {
             const submeshCount = this.submeshes.length;
-            const wleMeshes = new Array<Mesh>(submeshCount);
+            const wleMeshes = new Array<BackendMesh>(submeshCount);
             const hints = new Array<Hint | undefined>(submeshCount);
 
             let i = 0;
@@ -200,7 +253,7 @@ export class MeshGroup {
      * @param submeshIdx - The index of the wanted submesh.
      * @returns A pair containing a WL.Mesh instance and a WL.Material instance.
      */
-    getSubmesh(submeshIdx: number): Submesh {
+    getSubmesh(submeshIdx: number): Submesh<M> {
         const submesh = this.submeshes[submeshIdx];
 
         if (!submesh) {
@@ -215,7 +268,7 @@ export class MeshGroup {
      *
      * @returns A list of submeshes, where each submesh is a pair containing a WL.Mesh instance and a WL.Material instance.
      */
-    getSubmeshes(): Array<Submesh> {
+    getSubmeshes(): Array<Submesh<M>> {
         const submeshes = new Array(this.submeshCount);
 
         for (let i = 0; i < this.submeshCount; i++) {
@@ -250,13 +303,16 @@ export class MeshGroup {
 
     /**
      * Transform all submeshes and the manifold by a given matrix and normal
-     * matrix. Chainable method.
+     * matrix. If the matrix is a reflection (has a negative determinant), then
+     * the winding order of the triangles and the handedness of the tangents
+     * are flipped, so that the result isn't inside-out. Chainable method.
      */
     transform(matrix: mat4, normalMatrix?: mat3): this {
         if (!normalMatrix) {
             normalMatrix = mat3.fromMat4(mat3.create(), matrix);
         }
 
+        const isReflection = mat3.determinant(mat3.fromMat4(mat3.create(), matrix)) < 0;
         const tmp3 = vec3.create();
         const tmp4 = vec4.create();
 
@@ -286,14 +342,44 @@ export class MeshGroup {
                 if (tangents) {
                     tangents.get(i, tmp4);
                     vec3.transformMat3(tmp4 as vec3, tmp4 as vec3, normalMatrix);
+
+                    if (isReflection) {
+                        tmp4[3] = -tmp4[3];
+                    }
+
                     tangents.set(i, tmp4);
                 }
             }
+
+            if (isReflection && flipWinding(submesh)) {
+                // vertices were swapped, so the merge map is no longer valid
+                this.premadeMergeMap = null;
+            }
         }
 
         return this;
     }
 
+    /**
+     * Reflect all submeshes and the manifold across a plane that passes
+     * through the origin, with a given normal. Useful for modelling only half
+     * of a symmetric mesh. Chainable method.
+     */
+    mirror(normal: vec3): this {
+        const n = vec3.normalize(vec3.create(), normal);
+        const [x, y, z] = n;
+
+        // householder reflection matrix (I - 2nn^T), column-major
+        this.transform(mat4.fromValues(
+            1 - 2 * x * x, -2 * x * y, -2 * x * z, 0,
+            -2 * x * y, 1 - 2 * y * y, -2 * y * z, 0,
+            -2 * x * z, -2 * y * z, 1 - 2 * z * z, 0,
+            0, 0, 0, 1,
+        ));
+
+        return this;
+    }
+
     /**
      * Translate all submeshes and the manifold by a given translation vector.
      * Chainable method.
@@ -336,21 +422,23 @@ export class MeshGroup {
      *
      * @param materials: A list of materials. Materials will be converted to indices from this array.
      * @param transferables: An array to push transferables to, so that typed arrays can be transfered to a worker.
+     * @param shared: If true, typed arrays will be backed by SharedArrayBuffers, instead of being pushed to the transferables array, so that they are shared with workers instead of being cloned. Requires cross-origin isolation. False by default.
      */
-    encode(materials: Array<Material>, transferables: Array<Transferable>): EncodedMeshGroup {
+    encode(materials: Array<Material>, transferables: Array<Transferable>, shared = false): EncodedMeshGroup {
         // get merge map
         const mergeMap = this.mergeMap;
 
         // clone merge map buffers
-        const mergeFromBuf = new ArrayBuffer(mergeMap[0].byteLength);
-        const mergeFrom = new Uint32Array(mergeFromBuf);
+        const mergeFrom = makeTypedArray(Uint32Array, mergeMap[0].length, shared);
         mergeFrom.set(mergeMap[0]);
-        transferables.push(mergeFromBuf);
 
-        const mergeToBuf = new ArrayBuffer(mergeMap[1].byteLength);
-        const mergeTo = new Uint32Array(mergeToBuf);
+        const mergeTo = makeTypedArray(Uint32Array, mergeMap[1].length, shared);
         mergeTo.set(mergeMap[1]);
-        transferables.push(mergeToBuf);
+
+        if (!shared) {
+            transferables.push(mergeFrom.buffer);
+            transferables.push(mergeTo.buffer);
+        }
 
         // clone submeshes
         const submeshes = new Array<EncodedSubmesh>();
@@ -373,9 +461,11 @@ export class MeshGroup {
             let indices: Uint32Array | null = null;
 
             if (indexData !== null) {
-                indices = new Uint32Array(indexData.length);
+                indices = makeTypedArray(Uint32Array, indexData.length, shared);
                 indices.set(indexData);
-                transferables.push(indices.buffer);
+                if (!shared) {
+                    transferables.push(indices.buffer);
+                }
             }
 
             // get positions for mesh
@@ -385,13 +475,15 @@ export class MeshGroup {
             }
 
             const vertexCount = mesh.vertexCount;
-            const positions = new Float32Array(vertexCount * 3);
+            const positions = makeTypedArray(Float32Array, vertexCount * 3, shared);
             origPositions.get(0, positions);
-            transferables.push(positions.buffer);
+            if (!shared) {
+                transferables.push(positions.buffer);
+            }
 
             // get which extra attributes need to be copied, or generate the
             // list of attributes if no hints are provided
-            const attrs = new Array<[type: AllowedExtraMeshAttribute, accessor: MeshAttributeAccessor, componentCount: number]>();
+            const attrs = new Array<[type: AllowedExtraMeshAttribute, accessor: BackendMeshAttributeAccessor, componentCount: number]>();
             let hints: Iterable<AllowedExtraMeshAttribute> | undefined = submesh[2];
             let failOnMissing = true;
 
@@ -413,10 +505,12 @@ export class MeshGroup {
             // get extra attributes
             const extraAttributes = new Array<[AllowedExtraMeshAttribute, Float32Array]>();
             for (const [attrType, attrAccessor, componentCount] of attrs) {
-                const attrArray = new Float32Array(vertexCount * componentCount);
+                const attrArray = makeTypedArray(Float32Array, vertexCount * componentCount, shared);
                 attrAccessor.get(0, attrArray);
                 extraAttributes.push([attrType, attrArray]);
-                transferables.push(attrArray.buffer);
+                if (!shared) {
+                    transferables.push(attrArray.buffer);
+                }
             }
 
             // convert to object
@@ -0,0 +1,19 @@
+import type { CSGExecutor } from './CSGExecutor';
+
+/**
+ * A handle to a mesh that was uploaded to a {@link CSGPool} with
+ * {@link CSGPool#upload}, or to another {@link CSGExecutor}. Can be used in
+ * place of a mesh in CSG operation trees dispatched to the same pool, so that
+ * the mesh isn't encoded, sent and converted to a manifold on every dispatch.
+ * Release it with {@link CSGPool#release} when it's no longer needed.
+ */
+export class MeshHandle {
+    /**
+     * Create a new mesh handle. Don't call this directly; use
+     * {@link CSGPool#upload} instead.
+     *
+     * @param pool - The pool, or other executor, that the mesh was uploaded to.
+     * @param id - The unique ID of the uploaded mesh in the pool.
+     */
+    constructor(readonly pool: CSGExecutor, readonly id: number) {}
+}
@@ -3,22 +3,24 @@ import { vec3 } from 'gl-matrix';
 
 import type { vec2 } from 'gl-matrix';
 import type { PrismPyramidOptions } from './PrismPyramidOptions';
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /**
  * A procedural prism which extrudes along the Y direction.
  *
  * @category Procedural Mesh
  */
-export class PrismMesh extends BasePrismoidPyramidMesh {
+export class PrismMesh<M extends BackendMesh = Mesh> extends BasePrismoidPyramidMesh<M> {
     /**
      * Make a new prism which extrudes along the Y direction.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param polyline - The polyline to use for the base.
      * @param options - Optional arguments for the prism generation.
      */
-    constructor(engine: WonderlandEngine, polyline: Array<vec2>, options?: PrismPyramidOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, polyline: Array<vec2>, options?: PrismPyramidOptions) {
         const baseScale = options?.baseScale ?? 1;
 
         super(
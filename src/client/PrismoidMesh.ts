@@ -3,7 +3,9 @@ import { vec3 } from 'gl-matrix';
 
 import type { vec2 } from 'gl-matrix';
 import type { SmoothNormalsOptions } from './SmoothNormalsOptions';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /** Optional arguments for the prismoid generation. */
 export interface PrismoidOptions extends SmoothNormalsOptions {
@@ -27,15 +29,15 @@ export interface PrismoidOptions extends SmoothNormalsOptions {
  *
  * @category Procedural Mesh
  */
-export class PrismoidMesh extends BasePrismoidPyramidMesh {
+export class PrismoidMesh<M extends BackendMesh = Mesh> extends BasePrismoidPyramidMesh<M> {
     /**
      * Make a new prismoid.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param polyline - The polyline to use for the base.
      * @param options - Optional arguments for the prismoid generation.
      */
-    constructor(engine: WonderlandEngine, polyline: Array<vec2>, options?: PrismoidOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, polyline: Array<vec2>, options?: PrismoidOptions) {
         super(
             engine,
             polyline,
@@ -3,22 +3,24 @@ import { vec3 } from 'gl-matrix';
 
 import type { vec2 } from 'gl-matrix';
 import type { PrismPyramidOptions } from './PrismPyramidOptions';
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /**
  * A procedural pyramid.
  *
  * @category Procedural Mesh
  */
-export class PyramidMesh extends BasePrismoidPyramidMesh {
+export class PyramidMesh<M extends BackendMesh = Mesh> extends BasePrismoidPyramidMesh<M> {
     /**
      * Make a new pyramid.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param polyline - Polyline used for the pyramid's base.
      * @param options - Optional arguments for the pyramid generation.
      */
-    constructor(engine: WonderlandEngine, polyline: Array<vec2>, options?: PrismPyramidOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, polyline: Array<vec2>, options?: PrismPyramidOptions) {
         super(
             engine,
             polyline,
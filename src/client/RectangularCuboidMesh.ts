@@ -4,7 +4,9 @@ import { makeCuboidMaterialMap } from './mesh-gen/make-cuboid-material-map';
 import { filterHintMap } from './filter-hintmap';
 
 import type { CuboidFaceUVs, CuboidFaceUVPosRatio } from './mesh-gen/make-cuboid-builder';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 import type { HintOptions } from './HintOptions';
 
 export interface CuboidMaterialOptions extends HintOptions {
@@ -53,17 +55,17 @@ export interface CuboidOptions extends CuboidMaterialOptions {
  *
  * @category Procedural Mesh
  */
-export class RectangularCuboidMesh extends MeshGroup {
+export class RectangularCuboidMesh<M extends BackendMesh = Mesh> extends MeshGroup<M> {
     /**
      * Make a new procedural cuboid.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param width - The width of the cuboid.
      * @param height - The height of the cuboid.
      * @param depth - The depth of the cuboid.
      * @param options - Optional arguments for the cuboid generation.
      */
-    constructor(engine: WonderlandEngine, width: number, height: number, depth: number, options?: CuboidOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, width: number, height: number, depth: number, options?: CuboidOptions) {
         const hints = filterHintMap(true, true, true, false, options?.hints);
 
         super(...makeCuboidBuilder(
@@ -0,0 +1,15 @@
+import { MeshHandle } from './MeshHandle';
+
+/**
+ * A handle to the result of a CSG operation that was kept in the worker that
+ * ran it, by dispatching the operation with
+ * {@link DispatchOptions#keepResident}. Can be used in place of a mesh in CSG
+ * operation trees dispatched to the same pool, so that follow-up operations
+ * and queries can be done on the result without sending it back and forth.
+ *
+ * Jobs that use a resident manifold always run in the worker that has it, and
+ * can't use resident manifolds from different workers. If the worker dies,
+ * then the resident manifold is lost, and jobs that use it are rejected.
+ * Release it with {@link CSGPool#release} when it's no longer needed.
+ */
+export class ResidentManifold extends MeshHandle {}
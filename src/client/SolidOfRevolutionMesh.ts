@@ -3,7 +3,9 @@ import { ExtrusionMesh } from './ExtrusionMesh';
 
 import type { CurveFrames } from './curves/curve-frame';
 import type { SmoothNormalsOptions } from './SmoothNormalsOptions';
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 const TAU = Math.PI * 2;
 
@@ -32,16 +34,16 @@ export interface SolidOfRevolutionOptions extends SolidOfRevolutionNoOffsetOptio
  *
  * @category Procedural Mesh
  */
-export class SolidOfRevolutionMesh extends ExtrusionMesh {
+export class SolidOfRevolutionMesh<M extends BackendMesh = Mesh> extends ExtrusionMesh<M> {
     /**
      * Make a solid of revolution from a slice. Slices are revolved around the
      * Y axis.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param polyline - The polyline for the slice of the solid.
      * @param options - Optional arguments for the solid of revolution generation.
      */
-    constructor(engine: WonderlandEngine, polyline: Array<vec2>, options?: SolidOfRevolutionOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, polyline: Array<vec2>, options?: SolidOfRevolutionOptions) {
         const offset = options?.offset ?? vec2.create();
         const segments = options?.segments ?? 16;
 
@@ -2,7 +2,9 @@ import { vec2 } from 'gl-matrix';
 import { makeCirclePolyline } from '../client';
 import { SolidOfRevolutionMesh, SolidOfRevolutionNoOffsetOptions } from './SolidOfRevolutionMesh';
 
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 /** Optional arguments for torus generation. */
 export interface TorusOptions extends SolidOfRevolutionNoOffsetOptions {
@@ -15,16 +17,16 @@ export interface TorusOptions extends SolidOfRevolutionNoOffsetOptions {
  *
  * @category Procedural Mesh
  */
-export class TorusMesh extends SolidOfRevolutionMesh {
+export class TorusMesh<M extends BackendMesh = Mesh> extends SolidOfRevolutionMesh<M> {
     /**
      * Make a new torus at (0, 0, 0), which revolves around the Y axis.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param innerRadius - The inner radius of the torus.
      * @param outerRadius - The outer radius of the torus. The thickness of the slice is the outer radius minus the inner radius, therefore, this must be bigger than the inner radius.
      * @param options - Optional arguments for torus generation.
      */
-    constructor(engine: WonderlandEngine, innerRadius: number, outerRadius: number, options?: TorusOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, innerRadius: number, outerRadius: number, options?: TorusOptions) {
         if (innerRadius >= outerRadius || innerRadius < 0 || outerRadius < 0) {
             throw new Error('Invalid radii; inner radius must be lesser than outer radius and radii must be zero or positive');
         }
@@ -4,7 +4,9 @@ import { filterHintMap } from './filter-hintmap';
 
 import type { RadialOptions } from './RadialOptions';
 import type { vec2 } from 'gl-matrix';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from './mesh-backend/MeshBackend';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
 
 const NO_UVS: [vec2, vec2, vec2, vec2] = [[0,0],[0,0],[0,0],[0,0]];
 
@@ -19,16 +21,16 @@ export interface UVSphereOptions extends RadialOptions {
  *
  * @category Procedural Mesh
  */
-export class UVSphereMesh extends MeshGroup {
+export class UVSphereMesh<M extends BackendMesh = Mesh> extends MeshGroup<M> {
     /**
      * Create a new UV sphere. By default, has a radius of 0.5. All UV spheres
      * have an approximation of equirectangular mapping if the material used is
      * textured.
      *
-     * @param engine - The Wonderland Engine instance to use this mesh for
+     * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
      * @param options - Optional arguments for the sphere.
      */
-    constructor(engine: WonderlandEngine, options?: UVSphereOptions) {
+    constructor(engine: WonderlandEngine | MeshBackend<M>, options?: UVSphereOptions) {
         const subDivs = options?.subDivisions ?? 12;
         const radius = options?.radius ?? 0.5;
         const diameter = radius * 2;
@@ -0,0 +1,122 @@
+import { iterateOpTree } from '../common/iterate-operation-tree';
+import { MeshHandle } from './MeshHandle';
+
+import type { CSGOperation } from '../common/CSGOperation';
+import type { CSGSurfaceOptions } from '../common/CSGSurfaceOptions';
+import type { EncodedMeshGroup } from '../common/EncodedMeshGroup';
+import type { EncodedMeshHandle } from '../common/EncodedMeshHandle';
+import type { OpTreeCtx } from '../common/iterate-operation-tree';
+import type { WorkerOperation } from '../common/WorkerRequest';
+import type { Material } from '@wonderlandengine/api';
+import type { MeshGroup, Submesh } from './MeshGroup';
+import type { BackendMesh } from './mesh-backend/BackendMesh';
+
+/**
+ * Replace the material of a node with surface options, such as a CSG
+ * primitive, with its index in the job's list of materials. Returns a copy
+ * of the node if the material is replaced, so that the original node is
+ * not modified.
+ */
+function encodeSurfaceMaterial<T extends CSGSurfaceOptions>(node: T, materials: Array<Material>): T {
+    const material = node.material;
+    if (material === undefined || material === null || typeof material === 'number') {
+        return node;
+    }
+
+    let materialID = materials.indexOf(material);
+    if (materialID === -1) {
+        materialID = materials.length;
+        materials.push(material);
+    }
+
+    return { ...node, material: materialID };
+}
+
+/**
+ * Encode a list of CSG operation trees so that they can be evaluated with
+ * {@link evaluateOpTrees}. Meshes are replaced with encoded meshes, mesh
+ * handles are replaced with references to the uploaded meshes, and materials
+ * are replaced with their index in the job's list of materials.
+ *
+ * @param operations - The trees to encode.
+ * @param materials - The job's list of materials. Materials used in the trees are added to it.
+ * @param encodeMesh - A callback which encodes a mesh, adding its materials to the job's list of materials.
+ * @param getHandleMaterials - A callback which validates a mesh handle, and returns the list of materials of the mesh it refers to.
+ * @returns The encoded trees.
+ */
+export function encodeOpTrees(operations: Array<CSGOperation<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>>, materials: Array<Material>, encodeMesh: (mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh>) => EncodedMeshGroup, getHandleMaterials: (handle: MeshHandle) => Array<Material>): Array<WorkerOperation> {
+    // XXX meshes that appear multiple times are only encoded once, and the
+    // encoded mesh is shared. the structured clone algorithm keeps shared
+    // references, which lets the worker convert it only once
+    const convertedMeshes = new Map<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle, EncodedMeshGroup | EncodedMeshHandle>();
+    const convertedValues = new Set<EncodedMeshGroup | EncodedMeshHandle>();
+
+    // XXX operations are copied, so that root nodes with materials can be
+    // replaced
+    const encodedOperations = operations.slice();
+    const operationCount = operations.length;
+
+    for (let i = 0; i < operationCount; i++) {
+        iterateOpTree<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>(operations[i], (context: OpTreeCtx<MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle>, key: number | string, mesh: MeshGroup<BackendMesh> | BackendMesh | Submesh<BackendMesh> | MeshHandle) => {
+            // mesh
+            if (convertedValues.has(mesh as unknown as EncodedMeshGroup | EncodedMeshHandle)) {
+                // subtree shared between trees of the batch, which was already
+                // converted
+                return;
+            }
+
+            let converted = convertedMeshes.get(mesh);
+            if (converted === undefined) {
+                if (mesh instanceof MeshHandle) {
+                    // map materials of uploaded mesh to job materials
+                    const materialIDs = new Array<number>();
+                    for (const material of getHandleMaterials(mesh)) {
+                        let materialID = materials.indexOf(material);
+                        if (materialID === -1) {
+                            materialID = materials.length;
+                            materials.push(material);
+                        }
+
+                        materialIDs.push(materialID);
+                    }
+
+                    converted = { handle: mesh.id, materials: materialIDs };
+                } else {
+                    converted = encodeMesh(mesh);
+                }
+
+                convertedMeshes.set(mesh, converted);
+                convertedValues.add(converted);
+            }
+
+            // XXX this cast is safe, as we are converting the context from
+            // containing MeshGroup/Mesh instances into EncodedMeshGroup
+            // instances only
+            (context as unknown as OpTreeCtx<EncodedMeshGroup | EncodedMeshHandle>)[key] = converted;
+        }, (context, key, primitive) => {
+            // primitive
+            const encoded = encodeSurfaceMaterial(primitive, materials);
+            if (key === 'root') {
+                encodedOperations[i] = encoded;
+            } else {
+                context[key] = encoded;
+            }
+        }, (context, key, operation) => {
+            // operation
+            if (operation.operation !== 'extrude' && operation.operation !== 'revolve') {
+                return;
+            }
+
+            const encoded = encodeSurfaceMaterial(operation, materials);
+            if (key === 'root') {
+                encodedOperations[i] = encoded;
+            } else {
+                context[key] = encoded;
+            }
+        });
+    }
+
+    // XXX this cast is safe, as all meshes in the operation trees were
+    // replaced with EncodedMeshGroup instances
+    return encodedOperations as unknown as Array<WorkerOperation>;
+}
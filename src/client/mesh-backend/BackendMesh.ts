@@ -0,0 +1,23 @@
+import type { MeshAttribute } from '@wonderlandengine/api';
+import type { BackendMeshAttributeAccessor } from './BackendMeshAttributeAccessor';
+
+/**
+ * A mesh created by a {@link MeshBackend}. Wonderland Engine's `Mesh` class
+ * implements this interface, as does {@link TypedArrayMesh}.
+ */
+export interface BackendMesh {
+    /** The amount of vertices in the mesh. */
+    readonly vertexCount: number;
+    /**
+     * The index data of the mesh, or null if the mesh is not indexed.
+     * Modifying the index data modifies the mesh.
+     */
+    readonly indexData: Uint8Array | Uint16Array | Uint32Array | null;
+    /**
+     * Get an accessor for a vertex attribute of the mesh, or null if the
+     * attribute is not available.
+     */
+    attribute(attr: MeshAttribute): BackendMeshAttributeAccessor | null;
+    /** Free the mesh. The mesh must not be used after being destroyed. */
+    destroy(): void;
+}
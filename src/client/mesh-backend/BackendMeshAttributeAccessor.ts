@@ -0,0 +1,24 @@
+import type { NumberArray } from '@wonderlandengine/api';
+
+/**
+ * An accessor for a vertex attribute of a {@link BackendMesh}. Compatible with
+ * Wonderland Engine's `MeshAttributeAccessor`.
+ */
+export interface BackendMeshAttributeAccessor {
+    /** The amount of vertices that can be accessed. */
+    readonly length: number;
+    /** Get the attribute value of a single vertex as a new array. */
+    get(index: number): ArrayLike<number>;
+    /**
+     * Get the attribute values of one or more vertices, starting at a given
+     * vertex index. The amount of vertices is decided by the length of the
+     * output array, which must be a multiple of the component count.
+     */
+    get<T extends NumberArray>(index: number, out: T): T;
+    /**
+     * Set the attribute values of one or more vertices, starting at a given
+     * vertex index. The amount of vertices is decided by the length of the
+     * input array, which must be a multiple of the component count.
+     */
+    set(index: number, v: Readonly<NumberArray>): this;
+}
@@ -0,0 +1,11 @@
+import type { MeshIndexType } from '@wonderlandengine/api';
+
+/** Arguments for creating a mesh with {@link MeshBackend#createMesh}. */
+export interface BackendMeshOptions {
+    /** The amount of vertices to allocate. */
+    vertexCount: number;
+    /** The index data of the mesh. If not passed, the mesh is not indexed. */
+    indexData?: Uint8Array | Uint16Array | Uint32Array;
+    /** The type of the index data. Required if index data is passed. */
+    indexType?: MeshIndexType;
+}
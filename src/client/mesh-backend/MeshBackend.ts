@@ -0,0 +1,19 @@
+import type { BackendMesh } from './BackendMesh';
+import type { BackendMeshOptions } from './BackendMeshOptions';
+
+/**
+ * Creates the meshes used by procedural mesh generators and by decoded CSG
+ * results. {@link WLEMeshBackend} creates Wonderland Engine meshes, and
+ * {@link TypedArrayMeshBackend} creates meshes backed by plain typed arrays,
+ * which don't need Wonderland Engine, so that meshes can be generated
+ * headlessly, such as in build scripts and unit tests.
+ *
+ * Anywhere a Wonderland Engine instance is expected when creating meshes, a
+ * mesh backend can be passed instead.
+ *
+ * @template {BackendMesh} M - The type of the meshes created by this backend.
+ */
+export interface MeshBackend<M extends BackendMesh = BackendMesh> {
+    /** Create a new mesh with zero-filled vertex attributes. */
+    createMesh(options: BackendMeshOptions): M;
+}
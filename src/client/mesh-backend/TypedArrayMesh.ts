@@ -0,0 +1,60 @@
+import { MeshAttribute } from '@wonderlandengine/api';
+import { getComponentCount } from '../../common/getComponentCount';
+import { TypedArrayMeshAttributeAccessor } from './TypedArrayMeshAttributeAccessor';
+
+import type { BackendMesh } from './BackendMesh';
+
+/**
+ * A mesh backed by plain typed arrays, created by a
+ * {@link TypedArrayMeshBackend}. Doesn't need Wonderland Engine, but can't be
+ * rendered; the vertex data has to be read back with the attribute accessors.
+ */
+export class TypedArrayMesh implements BackendMesh {
+    private attributes: Map<MeshAttribute, TypedArrayMeshAttributeAccessor> | null;
+    private _indexData: Uint8Array | Uint16Array | Uint32Array | null;
+
+    /**
+     * @param vertexCount - The amount of vertices to allocate
+     * @param indexData - The index data of the mesh, or null if the mesh is not indexed. The index data is copied
+     * @param attributes - The vertex attributes to allocate. Must include positions
+     */
+    constructor(readonly vertexCount: number, indexData: Uint8Array | Uint16Array | Uint32Array | null, attributes: Iterable<MeshAttribute>) {
+        this._indexData = indexData === null ? null : indexData.slice();
+
+        const accessors = new Map<MeshAttribute, TypedArrayMeshAttributeAccessor>();
+        for (const attrType of attributes) {
+            const componentCount = getComponentCount(attrType);
+            accessors.set(attrType, new TypedArrayMeshAttributeAccessor(
+                new Float32Array(vertexCount * componentCount),
+                componentCount,
+            ));
+        }
+
+        if (!accessors.has(MeshAttribute.Position)) {
+            throw new Error('Meshes must have a position attribute');
+        }
+
+        this.attributes = accessors;
+    }
+
+    get indexData(): Uint8Array | Uint16Array | Uint32Array | null {
+        if (this.attributes === null) {
+            throw new Error('Cannot use a destroyed mesh');
+        }
+
+        return this._indexData;
+    }
+
+    attribute(attr: MeshAttribute): TypedArrayMeshAttributeAccessor | null {
+        if (this.attributes === null) {
+            throw new Error('Cannot use a destroyed mesh');
+        }
+
+        return this.attributes.get(attr) ?? null;
+    }
+
+    destroy(): void {
+        this.attributes = null;
+        this._indexData = null;
+    }
+}
@@ -0,0 +1,61 @@
+import type { NumberArray } from '@wonderlandengine/api';
+import type { BackendMeshAttributeAccessor } from './BackendMeshAttributeAccessor';
+
+/**
+ * An accessor for a vertex attribute of a {@link TypedArrayMesh}, which reads
+ * and writes the attribute's typed array directly.
+ */
+export class TypedArrayMeshAttributeAccessor implements BackendMeshAttributeAccessor {
+    /**
+     * @param data - The interleaved values of the attribute, for all vertices
+     * @param componentCount - The amount of components per vertex
+     */
+    constructor(readonly data: Float32Array, readonly componentCount: number) {}
+
+    get length(): number {
+        return this.data.length / this.componentCount;
+    }
+
+    get(index: number): Float32Array;
+    get<T extends NumberArray>(index: number, out: T): T;
+    get<T extends NumberArray>(index: number, out?: T): T | Float32Array {
+        if (out === undefined) {
+            const offset = index * this.componentCount;
+            return this.data.slice(offset, offset + this.componentCount);
+        }
+
+        const outLength = out.length;
+        if (outLength % this.componentCount !== 0) {
+            throw new Error(`Output length (${outLength}) is not a multiple of the component count (${this.componentCount})`);
+        }
+
+        const offset = index * this.componentCount;
+        if (offset + outLength > this.data.length) {
+            throw new Error(`Vertex index ${index} is out of bounds`);
+        }
+
+        for (let i = 0; i < outLength; i++) {
+            out[i] = this.data[offset + i];
+        }
+
+        return out;
+    }
+
+    set(index: number, v: Readonly<NumberArray>): this {
+        const inLength = v.length;
+        if (inLength % this.componentCount !== 0) {
+            throw new Error(`Input length (${inLength}) is not a multiple of the component count (${this.componentCount})`);
+        }
+
+        const offset = index * this.componentCount;
+        if (offset + inLength > this.data.length) {
+            throw new Error(`Vertex index ${index} is out of bounds`);
+        }
+
+        for (let i = 0; i < inLength; i++) {
+            this.data[offset + i] = v[i];
+        }
+
+        return this;
+    }
+}
@@ -0,0 +1,28 @@
+import { MeshAttribute } from '@wonderlandengine/api';
+import { TypedArrayMesh } from './TypedArrayMesh';
+
+import type { BackendMeshOptions } from './BackendMeshOptions';
+import type { MeshBackend } from './MeshBackend';
+
+/**
+ * A {@link MeshBackend} which creates {@link TypedArrayMesh} instances, which
+ * are backed by plain typed arrays. Useful for generating meshes and running
+ * CSG operations headlessly, such as in build scripts and unit tests, where
+ * Wonderland Engine is not available.
+ */
+export class TypedArrayMeshBackend implements MeshBackend<TypedArrayMesh> {
+    private attributes: Array<MeshAttribute>;
+
+    /**
+     * @param attributes - The vertex attributes that created meshes have, which mimics the attributes enabled by Wonderland Engine's pipelines. Positions are always included. By default, meshes have positions, tangents, normals, texture coordinates and colors.
+     */
+    constructor(attributes?: Iterable<MeshAttribute>) {
+        const attributeSet = new Set(attributes ?? [MeshAttribute.Tangent, MeshAttribute.Normal, MeshAttribute.TextureCoordinate, MeshAttribute.Color]);
+        attributeSet.add(MeshAttribute.Position);
+        this.attributes = Array.from(attributeSet);
+    }
+
+    createMesh(options: BackendMeshOptions): TypedArrayMesh {
+        return new TypedArrayMesh(options.vertexCount, options.indexData ?? null, this.attributes);
+    }
+}
@@ -0,0 +1,19 @@
+import { Mesh } from '@wonderlandengine/api';
+
+import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { BackendMeshOptions } from './BackendMeshOptions';
+import type { MeshBackend } from './MeshBackend';
+
+/**
+ * A {@link MeshBackend} which creates Wonderland Engine meshes. Used
+ * automatically when a Wonderland Engine instance is passed instead of a mesh
+ * backend.
+ */
+export class WLEMeshBackend implements MeshBackend<Mesh> {
+    /** @param engine - The Wonderland Engine instance to create meshes for */
+    constructor(readonly engine: WonderlandEngine) {}
+
+    createMesh(options: BackendMeshOptions): Mesh {
+        return new Mesh(this.engine, options);
+    }
+}
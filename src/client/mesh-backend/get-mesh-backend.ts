@@ -0,0 +1,29 @@
+import { WLEMeshBackend } from './WLEMeshBackend';
+
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { BackendMesh } from './BackendMesh';
+import type { MeshBackend } from './MeshBackend';
+
+const wleBackends = new WeakMap<WonderlandEngine, WLEMeshBackend>();
+
+/**
+ * Get the mesh backend to use for a given Wonderland Engine instance or mesh
+ * backend. Wonderland Engine instances are wrapped in a
+ * {@link WLEMeshBackend}, which is reused for the same instance.
+ *
+ * @param engine - The Wonderland Engine instance, or the mesh backend
+ */
+export function getMeshBackend<M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>): MeshBackend<M> {
+    if ('createMesh' in engine) {
+        return engine;
+    }
+
+    let backend = wleBackends.get(engine);
+    if (backend === undefined) {
+        backend = new WLEMeshBackend(engine);
+        wleBackends.set(engine, backend);
+    }
+
+    // XXX M can only be something other than Mesh if a mesh backend is passed
+    return backend as unknown as MeshBackend<M>;
+}
@@ -8,17 +8,20 @@ import { makeIndexBuffer } from '../../common/makeIndexBuffer';
 import { genInterlacedMergeMap, IndexRangeList } from './gen-interlaced-merge-map';
 import { deinterlaceMergeMap } from './deinterlace-merge-map';
 import { autoConnectAllEdges } from './auto-connect-all-edges';
-import { Mesh, MeshAttribute } from '@wonderlandengine/api';
+import { MeshAttribute } from '@wonderlandengine/api';
 import { optimizeIndexData } from '../../common/optimize-index-data';
 import { getHintAttributeFromSet } from './get-hint-attribute';
+import { getMeshBackend } from '../mesh-backend/get-mesh-backend';
 
 import type { Submesh } from '../MeshGroup';
 import type { quat } from 'gl-matrix';
 import type { MergeMap } from '../../common/MergeMap';
 import type { EdgeList } from './EdgeList';
-import type { Material, WonderlandEngine } from '@wonderlandengine/api';
+import type { Material, Mesh, WonderlandEngine } from '@wonderlandengine/api';
 import type { Hint } from '../../common/Hint';
 import type { HintMap } from '../../common/HintMap';
+import type { MeshBackend } from '../mesh-backend/MeshBackend';
+import type { BackendMesh } from '../mesh-backend/BackendMesh';
 
 const MAT3_IDENTITY = mat3.create();
 const MAT4_IDENTITY = mat4.create();
@@ -109,8 +112,12 @@ export interface ExtraTriangleAttributes extends ExtraTriangleAttributesNoNormal
 // about it for now (the isAttributeAvailable feature could be hacked in, but
 // it's very ugly and i'd rather wait)
 
-/** A helper class for easily creating meshes, with connected triangles. */
-export class MeshBuilder {
+/**
+ * A helper class for easily creating meshes, with connected triangles.
+ *
+ * @template {BackendMesh} M - The type of the created meshes. WL.Mesh by default.
+ */
+export class MeshBuilder<M extends BackendMesh = Mesh> {
     /**
      * The list of all triangles in this manifold. Note that this array might be
      * detached from the builder and replaced with a new array. It is safe to
@@ -119,8 +126,8 @@ export class MeshBuilder {
      */
     triangles = new Array<Triangle>();
 
-    /** @param engine - The Wonderland Engine instance being used */
-    constructor(readonly engine: WonderlandEngine) {}
+    /** @param engine - The Wonderland Engine instance, or the mesh backend, being used */
+    constructor(readonly engine: WonderlandEngine | MeshBackend<M>) {}
 
     /**
      * Get the number of triangles in this MeshBuilder. Equivalent to getting
@@ -511,7 +518,7 @@ export class MeshBuilder {
     }
 
     /** Internal function. Creates a submesh */
-    private finalizeSubmesh(material: Material | null, hint: Hint, failOnMissing: boolean, triangles: Array<Triangle>, timOffset: number, triIdxMap: Uint32Array | null, totalVertexCount: number, indexRangeList: IndexRangeList): [submesh: Submesh, totalVertexCount: number] {
+    private finalizeSubmesh(material: Material | null, hint: Hint, failOnMissing: boolean, triangles: Array<Triangle>, timOffset: number, triIdxMap: Uint32Array | null, totalVertexCount: number, indexRangeList: IndexRangeList): [submesh: Submesh<M>, totalVertexCount: number] {
         // make index and vertex data in advance
         const triCount = triangles.length;
         // XXX this assumes the worst case; that no vertices are merged. index
@@ -586,7 +593,7 @@ export class MeshBuilder {
 
         // instance one mesh
         totalVertexCount += vertexCount;
-        const mesh = new Mesh(this.engine, { vertexCount, indexData, indexType });
+        const mesh = getMeshBackend(this.engine).createMesh({ vertexCount, indexData, indexType });
 
         try {
             // upload vertex data
@@ -676,11 +683,11 @@ export class MeshBuilder {
      * @param failOnMissing - If this is true and a hinted mesh attribute fails to be gotten, an error will be thrown.
      * @param generateManifold - True by default. If true, a manifold and a submesh map will also be generated, otherwise, these will be null. Note than if a manifold is generated, then the triangles must form a 2-manifold surface, but if a manifold is not generated, then even a triangle soup is supported.
      */
-    finalize(materialMap: Map<number, Material | null>, hints: HintMap, failOnMissing?: boolean, generateManifold?: true): [ submeshes: Array<Submesh>, mergeMap: MergeMap ];
-    finalize(materialMap: Map<number, Material | null>, hints: HintMap, failOnMissing: boolean, generateManifold: false): [ submeshes: Array<Submesh>, mergeMap: null ];
-    finalize(materialMap: Map<number, Material | null>, hints: HintMap, failOnMissing = false, generateManifold = true): [ submeshes: Array<Submesh>, mergeMap: MergeMap | null ] {
+    finalize(materialMap: Map<number, Material | null>, hints: HintMap, failOnMissing?: boolean, generateManifold?: true): [ submeshes: Array<Submesh<M>>, mergeMap: MergeMap ];
+    finalize(materialMap: Map<number, Material | null>, hints: HintMap, failOnMissing: boolean, generateManifold: false): [ submeshes: Array<Submesh<M>>, mergeMap: null ];
+    finalize(materialMap: Map<number, Material | null>, hints: HintMap, failOnMissing = false, generateManifold = true): [ submeshes: Array<Submesh<M>>, mergeMap: MergeMap | null ] {
         const triCount = this.triangles.length;
-        const submeshes = new Array<Submesh>();
+        const submeshes = new Array<Submesh<M>>();
         const interlacedMergeMap = generateManifold ? new DynamicArray(Uint32Array) : null;
 
         // get default hint
@@ -723,7 +730,7 @@ export class MeshBuilder {
 
                 // finalize submesh
                 const triangles = groupedTris.get(material) as Array<Triangle>;
-                let submesh: Submesh;
+                let submesh: Submesh<M>;
                 [submesh, vertexCount] = this.finalizeSubmesh(material, hint, failOnMissing, triangles, timOffset, maybeTriIdxMap, vertexCount, indexRangeList);
                 submeshes.push(submesh);
 
@@ -1,20 +1,23 @@
 import { makeIndexBuffer } from '../../client';
-import { Mesh, MeshAttribute } from '@wonderlandengine/api';
+import { MeshAttribute } from '@wonderlandengine/api';
+import { getMeshBackend } from '../mesh-backend/get-mesh-backend';
 
-import type { MeshIndexType, WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, MeshIndexType, WonderlandEngine } from '@wonderlandengine/api';
+import type { BackendMesh } from '../mesh-backend/BackendMesh';
+import type { MeshBackend } from '../mesh-backend/MeshBackend';
 
 /**
- * Clone a Wonderland Engine mesh. A new, separate mesh will be created with the
+ * Clone a Wonderland Engine mesh, or a mesh from another mesh backend. A new, separate mesh will be created with the
  * same data as the given mesh. Useful if you want to transform a mesh without
  * modifying the original mesh.
  *
  * Note that skinning data is not cloned.
  *
  * @param oMesh - The original mesh to copy.
- * @param engine - The Wonderland Engine instance to use for creating the mesh
+ * @param engine - The Wonderland Engine instance, or the mesh backend, to use for creating the mesh
  * @returns Returns a copy of the given mesh.
  */
-export function cloneMesh(oMesh: Mesh, engine: WonderlandEngine): Mesh {
+export function cloneMesh<M extends BackendMesh = Mesh>(oMesh: BackendMesh, engine: WonderlandEngine | MeshBackend<M>): M {
     // clone index data
     const oIndexData = oMesh.indexData;
     const vertexCount = oMesh.vertexCount;
@@ -31,7 +34,7 @@ export function cloneMesh(oMesh: Mesh, engine: WonderlandEngine): Mesh {
     }
 
     // make new mesh
-    const mesh = new Mesh(engine, { indexData, indexType, vertexCount });
+    const mesh = getMeshBackend(engine).createMesh({ indexData, indexType, vertexCount });
 
     // clone vertex attributes
     // (positions)
@@ -87,7 +90,7 @@ export function cloneMesh(oMesh: Mesh, engine: WonderlandEngine): Mesh {
     if (colors) {
         const oColors = oMesh.attribute(MeshAttribute.Color);
         if (oColors) {
-            const colorBuf = new Float32Array(vertexCount * 2);
+            const colorBuf = new Float32Array(vertexCount * 4);
             oColors.get(0, colorBuf);
             colors.set(0, colorBuf);
         }
@@ -1,8 +1,9 @@
 import { MeshAttribute } from '@wonderlandengine/api';
 
-import type { Mesh, MeshAttributeAccessor } from '@wonderlandengine/api';
 import type { AllowedExtraMeshAttribute } from '../../common/AllowedExtraMeshAttribute';
 import type { Hint } from '../../common/Hint';
+import type { BackendMesh } from '../mesh-backend/BackendMesh';
+import type { BackendMeshAttributeAccessor } from '../mesh-backend/BackendMeshAttributeAccessor';
 
 /**
  * Get a mesh attribute from a given mesh. If the attribute is missing and
@@ -12,10 +13,10 @@ import type { Hint } from '../../common/Hint';
  * @param attribute - The mesh attribute type
  * @param failOnMissing - Should an error be thrown instead of returning null when the attribute is missing? True by default
  */
-export function getHintAttribute(mesh: Mesh, attribute: AllowedExtraMeshAttribute, failOnMissing?: true): MeshAttributeAccessor;
-export function getHintAttribute(mesh: Mesh, attribute: AllowedExtraMeshAttribute, failOnMissing: false): MeshAttributeAccessor | null;
-export function getHintAttribute(mesh: Mesh, attribute: AllowedExtraMeshAttribute, failOnMissing: boolean): MeshAttributeAccessor | null;
-export function getHintAttribute(mesh: Mesh, attribute: AllowedExtraMeshAttribute, failOnMissing = true): MeshAttributeAccessor | null {
+export function getHintAttribute(mesh: BackendMesh, attribute: AllowedExtraMeshAttribute, failOnMissing?: true): BackendMeshAttributeAccessor;
+export function getHintAttribute(mesh: BackendMesh, attribute: AllowedExtraMeshAttribute, failOnMissing: false): BackendMeshAttributeAccessor | null;
+export function getHintAttribute(mesh: BackendMesh, attribute: AllowedExtraMeshAttribute, failOnMissing: boolean): BackendMeshAttributeAccessor | null;
+export function getHintAttribute(mesh: BackendMesh, attribute: AllowedExtraMeshAttribute, failOnMissing = true): BackendMeshAttributeAccessor | null {
     const attrAcc = mesh.attribute(attribute);
 
     if (!attrAcc && failOnMissing) {
@@ -43,7 +44,7 @@ export function getHintAttribute(mesh: Mesh, attribute: AllowedExtraMeshAttribut
  * @param hint - The set of attributes to check against. If the attribute is not in the set, null is returned
  * @param attribute - The mesh attribute type
  */
-export function getHintAttributeFromSet(mesh: Mesh, hint: Hint, attribute: AllowedExtraMeshAttribute, failOnMissing = true): MeshAttributeAccessor | null {
+export function getHintAttributeFromSet(mesh: BackendMesh, hint: Hint, attribute: AllowedExtraMeshAttribute, failOnMissing = true): BackendMeshAttributeAccessor | null {
     if (hint.has(attribute)) {
         return getHintAttribute(mesh, attribute, failOnMissing);
     } else {
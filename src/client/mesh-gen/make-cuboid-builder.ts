@@ -6,7 +6,9 @@ import { autoConnectEdges } from './auto-connect-edges';
 import type { Triangle } from './Triangle';
 import type { vec2 } from 'gl-matrix';
 import type { EdgeList } from './EdgeList';
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from '../mesh-backend/MeshBackend';
+import type { BackendMesh } from '../mesh-backend/BackendMesh';
 
 /**
  * A list of UVs for the corner of a cuboid's face. In order, the top-left
@@ -25,7 +27,7 @@ function makeUVs(uSpan: number, vSpan: number): [ tl: vec2, tr: vec2, bl: vec2,
     return [ [0, vSpan], [uSpan, vSpan], [0, 0], [uSpan, 0] ];
 }
 
-function addCubeFace(builder: MeshBuilder, edgeList: EdgeList, connectableTriangles: Array<Triangle>, corners: Array<vec3>, quad: Quad, addTangents: boolean, subDivisions: number): void {
+function addCubeFace(builder: MeshBuilder<BackendMesh>, edgeList: EdgeList, connectableTriangles: Array<Triangle>, corners: Array<vec3>, quad: Quad, addTangents: boolean, subDivisions: number): void {
     // resolve actual uv values
     let finalUVs: CuboidFaceUVs | undefined | Tuple<undefined, 4> = undefined;
     const uvs = quad[4];
@@ -70,7 +72,7 @@ function addCubeFace(builder: MeshBuilder, edgeList: EdgeList, connectableTriang
  * 4: back
  * 5: front
  *
- * @param engine - The Wonderland Engine instance to use this mesh for
+ * @param engine - The Wonderland Engine instance, or the mesh backend, to use this mesh for
  * @param subDivisions - The amount of sub-divisions per face. For example, 1 sub-division means that there are only 2 triangles per face, but 2 sub-divisions means that there are 8 triangles per face.
  * @param width - The width (X length) of the cuboid.
  * @param height - The height (Y length) of the cuboid.
@@ -85,7 +87,7 @@ function addCubeFace(builder: MeshBuilder, edgeList: EdgeList, connectableTriang
  * @param frontUVs - UVs for the front (+Z) face.
  * @returns A new MeshBuilder instance with the triangles and topology of a sub-divided cuboid.
  */
-export function makeCuboidBuilder(engine: WonderlandEngine, subDivisions: number, width: number, height: number, depth: number, center: boolean, addTangents = true, leftUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, rightUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, downUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, upUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, backUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, frontUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio): MeshBuilder {
+export function makeCuboidBuilder<M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, subDivisions: number, width: number, height: number, depth: number, center: boolean, addTangents = true, leftUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, rightUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, downUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, upUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, backUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio, frontUVs?: CuboidFaceUVs | CuboidFaceUVPosRatio): MeshBuilder<M> {
     // make corners
     const right = center ? (width / 2) : width;
     const left = center ? -right : 0;
@@ -118,7 +120,7 @@ export function makeCuboidBuilder(engine: WonderlandEngine, subDivisions: number
     // add faces
     const edgeList: EdgeList = [];
     const connectableTriangles: Array<Triangle> = [];
-    const builder = new MeshBuilder(engine);
+    const builder = new MeshBuilder<M>(engine);
     for (const face of faces) {
         addCubeFace(builder, edgeList, connectableTriangles, corners, face, addTangents, subDivisions);
     }
@@ -1,7 +1,9 @@
 import { MeshBuilder } from './MeshBuilder';
 import { vec2, vec3 } from 'gl-matrix';
 
-import type { WonderlandEngine } from '@wonderlandengine/api';
+import type { Mesh, WonderlandEngine } from '@wonderlandengine/api';
+import type { MeshBackend } from '../mesh-backend/MeshBackend';
+import type { BackendMesh } from '../mesh-backend/BackendMesh';
 
 const ICO_V: Array<Readonly<vec3>> = [
     vec3.fromValues( 0       ,  1       ,  0      ),
@@ -33,8 +35,8 @@ const BR_UV: Readonly<vec2> = vec2.fromValues(1, 0);
  *
  * @param addTangents - If true (default), then tangents will be added to each triangle's vertices. Useful if you want to avoid generating tangents for optimisation purposes.
  */
-export function makeIcosahedronBuilder(engine: WonderlandEngine, addTangents = true): MeshBuilder {
-    const builder = new MeshBuilder(engine);
+export function makeIcosahedronBuilder<M extends BackendMesh = Mesh>(engine: WonderlandEngine | MeshBackend<M>, addTangents = true): MeshBuilder<M> {
+    const builder = new MeshBuilder<M>(engine);
 
     // top triangles
     const t0  = builder.addTriangle(ICO_V[0 ], ICO_V[1 ], ICO_V[2 ]);
@@ -7,7 +7,8 @@ import { getHintAttributeFromSet } from './get-hint-attribute';
 import { autoConnectAllEdges } from './auto-connect-all-edges';
 
 import type { Hint } from '../../common/Hint';
-import type { Mesh, MeshAttributeAccessor } from '@wonderlandengine/api';
+import type { BackendMesh } from '../mesh-backend/BackendMesh';
+import type { BackendMeshAttributeAccessor } from '../mesh-backend/BackendMeshAttributeAccessor';
 import type { MergeMap } from '../../common/MergeMap';
 
 /**
@@ -19,7 +20,7 @@ import type { MergeMap } from '../../common/MergeMap';
  * @param wleMeshes - A Wonderland Engine mesh, or a list of Wonderland Engine meshes, to convert to a manifold
  * @returns Returns a tuple containing the submesh map, and a manifold. If genSubmeshMap is false, then the submesh map will be null.
  */
-export function mergeMapFromWLE(wleMeshes: Mesh | Array<Mesh>, hints?: Array<Hint | undefined>): MergeMap {
+export function mergeMapFromWLE(wleMeshes: BackendMesh | Array<BackendMesh>, hints?: Array<Hint | undefined>): MergeMap {
     // make sure input is an array
     if (!Array.isArray(wleMeshes)) {
         wleMeshes = [wleMeshes];
@@ -47,10 +48,10 @@ export function mergeMapFromWLE(wleMeshes: Mesh | Array<Mesh>, hints?: Array<Hin
         }
 
         // get other attrs according to hints
-        let normals: MeshAttributeAccessor<Float32ArrayConstructor> | null;
-        let uvs: MeshAttributeAccessor<Float32ArrayConstructor> | null;
-        let tangents: MeshAttributeAccessor<Float32ArrayConstructor> | null;
-        let colors: MeshAttributeAccessor<Float32ArrayConstructor> | null;
+        let normals: BackendMeshAttributeAccessor | null;
+        let uvs: BackendMeshAttributeAccessor | null;
+        let tangents: BackendMeshAttributeAccessor | null;
+        let colors: BackendMeshAttributeAccessor | null;
 
         const hint = hints[m];
         if (hint) {
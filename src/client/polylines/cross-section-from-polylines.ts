@@ -0,0 +1,23 @@
+import type { vec2 } from 'gl-matrix';
+import type { FillRule, SimplePolygon } from 'manifold-3d';
+import type { CSGCrossSection } from '../../common/CSGCrossSection';
+
+/**
+ * Make a cross-section from a list of polylines, which can be used in the
+ * extrude and revolve CSG operations. Counter-clockwise polylines are filled,
+ * while clockwise polylines are holes, so holes can be made by passing
+ * `clockwise = true` to the polyline functions.
+ *
+ * @param polylines - The list of polylines. Each polyline is a closed contour.
+ * @param fillRule - The rule used to decide which parts of the contours are filled. "Positive" by default.
+ */
+export function crossSectionFromPolylines(polylines: Array<Array<vec2>>, fillRule?: FillRule): CSGCrossSection {
+    const contours = new Array<SimplePolygon>();
+    for (const polyline of polylines) {
+        // XXX polylines can have typed arrays as points, which aren't the
+        // expected type. copy them into plain arrays
+        contours.push(polyline.map((point) => [point[0], point[1]]));
+    }
+
+    return fillRule === undefined ? { contours } : { contours, fillRule };
+}
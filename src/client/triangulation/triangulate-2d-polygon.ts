@@ -1,5 +1,5 @@
 import { vec2 } from 'gl-matrix';
-import isClockwise2DPolygon from './is-clockwise-2d-polygon';
+import isClockwise2DPolygon from '../../common/is-clockwise-2d-polygon';
 import partition2DPolygon from './partition-2d-polygon';
 import triangulateMonotone2DPolygon from './triangulate-monotone-2d-polygon';
 
@@ -1,5 +1,5 @@
 import { vec2 } from 'gl-matrix';
-import isClockwise2DPolygon from './is-clockwise-2d-polygon';
+import isClockwise2DPolygon from '../../common/is-clockwise-2d-polygon';
 import isClockwise2DTriangle from './is-clockwise-2d-triangle';
 import sort2DIndices from './sort-2d-indices';
 
@@ -0,0 +1,27 @@
+import type { WorkerResponse } from '../../common/WorkerResponse';
+import type { PoolWorker } from './PoolWorker';
+import type { WorkerEnvironment } from './WorkerEnvironment';
+
+/**
+ * A {@link WorkerEnvironment} which creates web workers. Used by default by
+ * {@link CSGPool}. Shared memory is only available if the page is cross-origin
+ * isolated.
+ */
+export class BrowserWorkerEnvironment implements WorkerEnvironment {
+    get hardwareConcurrency(): number {
+        return navigator.hardwareConcurrency;
+    }
+
+    get sharedMemory(): boolean {
+        return typeof SharedArrayBuffer !== 'undefined'
+            && typeof crossOriginIsolated !== 'undefined'
+            && crossOriginIsolated;
+    }
+
+    createWorker(workerPath: string, name: string, onMessage: (response: WorkerResponse) => void, onError: (message: string) => void): PoolWorker {
+        const worker = new Worker(workerPath, { name });
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => onMessage(event.data);
+        worker.onerror = (event: ErrorEvent) => onError(event.message);
+        return worker;
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * The parts of a Node.js `Worker` (from the `node:worker_threads` module)
+ * that are used by {@link NodeWorkerEnvironment}.
+ */
+export interface NodeWorker {
+    postMessage(value: unknown, transferList?: ReadonlyArray<Transferable>): void;
+    terminate(): unknown;
+    on(event: 'message', listener: (value: unknown) => void): unknown;
+    on(event: 'error', listener: (error: Error) => void): unknown;
+    on(event: 'exit', listener: (exitCode: number) => void): unknown;
+}
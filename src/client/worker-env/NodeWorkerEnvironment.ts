@@ -0,0 +1,62 @@
+import type { WorkerResponse } from '../../common/WorkerResponse';
+import type { NodeWorkerThreads } from './NodeWorkerThreads';
+import type { PoolWorker } from './PoolWorker';
+import type { WorkerEnvironment } from './WorkerEnvironment';
+
+/**
+ * A {@link WorkerEnvironment} which creates Node.js worker threads, so that
+ * CSG operations can be done in Node.js, such as in build scripts. Workers
+ * must use the Node.js worker script ("gypsum-manifold-node.worker.min.js")
+ * instead of the browser worker script. Shared memory is always available.
+ *
+ * The `node:worker_threads` module is passed to the constructor instead of
+ * being imported, so that Gypsum can still be bundled for browsers:
+ *
+ * ```js
+ * import * as workerThreads from 'node:worker_threads';
+ * import { availableParallelism } from 'node:os';
+ *
+ * const environment = new NodeWorkerEnvironment(workerThreads, availableParallelism());
+ * ```
+ */
+export class NodeWorkerEnvironment implements WorkerEnvironment {
+    /**
+     * @param workerThreads - The `node:worker_threads` module.
+     * @param hardwareConcurrency - The amount of logical processors available, such as the value returned by `os.availableParallelism()`.
+     */
+    constructor(private workerThreads: NodeWorkerThreads, readonly hardwareConcurrency: number) {}
+
+    get sharedMemory(): boolean {
+        return typeof SharedArrayBuffer !== 'undefined';
+    }
+
+    createWorker(workerPath: string, name: string, onMessage: (response: WorkerResponse) => void, onError: (message: string) => void): PoolWorker {
+        // XXX worker threads don't have names, so the name is passed as the
+        // worker data instead
+        const worker = new this.workerThreads.Worker(workerPath, { workerData: { name } });
+        let stopped = false;
+
+        worker.on('message', (response) => onMessage(response as WorkerResponse));
+        worker.on('error', (error) => {
+            // XXX uncaught errors are followed by an exit event, which
+            // shouldn't be reported again
+            stopped = true;
+            onError(error.message);
+        });
+        worker.on('exit', (exitCode) => {
+            // XXX unlike web workers, worker threads can stop by themselves
+            if (!stopped) {
+                stopped = true;
+                onError(`Worker stopped unexpectedly with exit code ${exitCode}`);
+            }
+        });
+
+        return {
+            postMessage: (request, transfer) => worker.postMessage(request, transfer),
+            terminate: () => {
+                stopped = true;
+                worker.terminate();
+            },
+        };
+    }
+}
@@ -0,0 +1,9 @@
+import type { NodeWorker } from './NodeWorker';
+
+/**
+ * The parts of the `node:worker_threads` module that are used by
+ * {@link NodeWorkerEnvironment}.
+ */
+export interface NodeWorkerThreads {
+    Worker: new (filename: string | URL, options?: { workerData?: unknown }) => NodeWorker;
+}
@@ -0,0 +1,17 @@
+import type { WorkerRequest } from '../../common/WorkerRequest';
+
+/**
+ * A worker created by a {@link WorkerEnvironment}, as seen by a
+ * {@link CSGPool}.
+ */
+export interface PoolWorker {
+    /**
+     * Send a request to the worker.
+     *
+     * @param request - The request to send.
+     * @param transfer - The optional list of objects to transfer to the worker instead of copying.
+     */
+    postMessage(request: WorkerRequest, transfer?: Array<Transferable>): void;
+    /** Immediately stop the worker, without waiting for running jobs. */
+    terminate(): void;
+}
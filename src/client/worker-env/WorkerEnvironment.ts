@@ -0,0 +1,29 @@
+import type { WorkerResponse } from '../../common/WorkerResponse';
+import type { PoolWorker } from './PoolWorker';
+
+/**
+ * Abstracts how a {@link CSGPool} creates and talks to workers, so that the
+ * same pool can be used in browsers ({@link BrowserWorkerEnvironment}) and in
+ * Node.js ({@link NodeWorkerEnvironment}).
+ */
+export interface WorkerEnvironment {
+    /**
+     * The amount of logical processors available. Used for picking the
+     * default amount of workers in a pool.
+     */
+    readonly hardwareConcurrency: number;
+    /**
+     * Can SharedArrayBuffers be sent to workers created by this environment?
+     */
+    readonly sharedMemory: boolean;
+    /**
+     * Create a new worker.
+     *
+     * @param workerPath - The path to the worker script for this environment.
+     * @param name - The name of the worker, used for logging.
+     * @param onMessage - A callback called whenever the worker sends a response.
+     * @param onError - A callback called whenever the worker crashes with an uncaught error, or stops unexpectedly.
+     * @returns The created worker.
+     */
+    createWorker(workerPath: string, name: string, onMessage: (response: WorkerResponse) => void, onError: (message: string) => void): PoolWorker;
+}
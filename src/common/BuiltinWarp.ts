@@ -0,0 +1,32 @@
+/**
+ * A deformation from the built-in library of the warp CSG operation. Axes are
+ * given as "x", "y" or "z", and default to "y", since it's the up axis in
+ * Wonderland Engine.
+ *
+ * - twist: rotates vertices around the axis, proportionally to their position
+ *   along the axis.
+ * - taper: scales vertices away from the axis by `1 + factor * t`, where `t`
+ *   is their position along the axis.
+ * - bend: bends the axis in a circular arc, towards another axis ("x" by
+ *   default).
+ * - noise: displaces vertices by a smooth pseudo-random vector field.
+ */
+export type BuiltinWarp = {
+    type: 'twist',
+    axis?: 'x' | 'y' | 'z',
+    degreesPerUnit: number,
+} | {
+    type: 'taper',
+    axis?: 'x' | 'y' | 'z',
+    factor: number,
+} | {
+    type: 'bend',
+    axis?: 'x' | 'y' | 'z',
+    towards?: 'x' | 'y' | 'z',
+    degreesPerUnit: number,
+} | {
+    type: 'noise',
+    amplitude: number,
+    frequency: number,
+    seed?: number,
+};
@@ -0,0 +1,63 @@
+import type { FillRule, JoinType, Mat3, SimplePolygon, Vec2 } from 'manifold-3d';
+
+/**
+ * A tree of 2D operations which evaluates to a cross-section, which can be
+ * extruded or revolved by the extrude and revolve CSG operations.
+ *
+ * Leaves are lists of contours. Each contour is a closed polygon, such as a
+ * polyline made with {@link makeCirclePolyline}, where counter-clockwise
+ * contours are filled and clockwise contours are holes (with the default
+ * "Positive" fill rule). Use {@link crossSectionFromPolylines} to make leaves
+ * from polylines.
+ */
+export type CSGCrossSection = {
+    contours: Array<SimplePolygon>,
+    fillRule?: FillRule,
+} | {
+    operation: 'union' | 'difference' | 'intersection',
+    crossSections: Array<CSGCrossSection>,
+} | (
+    {
+        crossSection: CSGCrossSection,
+    } & (
+        {
+            /**
+             * Grow (positive delta) or shrink (negative delta) a cross-section.
+             * The join type controls how corners are handled: "Square" cuts
+             * them off, "Round" rounds them (with the given number of circular
+             * segments), and "Miter" extends them up to the miter limit.
+             */
+            operation: 'offset',
+            delta: number,
+            joinType?: JoinType,
+            miterLimit?: number,
+            circularSegments?: number,
+        } | {
+            /**
+             * Remove vertices that are closer than epsilon to the line
+             * between their neighbours.
+             */
+            operation: 'simplify',
+            epsilon?: number,
+        } | {
+            operation: 'translate',
+            offset: Vec2,
+        } | {
+            operation: 'rotate',
+            degrees: number,
+        } | {
+            operation: 'scale',
+            factor: Vec2 | number,
+        } | {
+            /**
+             * Reflect a cross-section across a line that passes through the
+             * origin, with the given normal.
+             */
+            operation: 'mirror',
+            normal: Vec2,
+        } | {
+            operation: 'transform',
+            matrix: Mat3,
+        }
+    )
+);
@@ -1,10 +1,76 @@
+import type { Vec3 } from 'manifold-3d';
 import type { CSGTree } from './CSGTree';
 
 /**
  * A CSG operation in a CSG operation tree that DOES NOT return a manifold, and
- * therefore cannot be chained.
+ * therefore cannot be chained. Note that the decompose, split and splitByPlane
+ * operations return a list of meshes; one for each disconnected piece of the
+ * manifold for decompose, or both halves of the manifold for split and
+ * splitByPlane. The slice and project operations return a list of 2D
+ * contours.
  */
 export type CSGFinalOperation<MeshType> = {
-    operation: 'isEmpty' | 'numVert' | 'numTri' | 'numEdge' | 'boundingBox' | 'precision' | 'genus' | 'getProperties' | 'getCurvature' | 'originalID',
+    operation: 'isEmpty' | 'numVert' | 'numTri' | 'numEdge' | 'boundingBox' | 'precision' | 'genus' | 'getProperties' | 'getCurvature' | 'originalID' | 'decompose',
     manifold: CSGTree<MeshType> | MeshType,
+} | {
+    /**
+     * Cut a manifold in two with another manifold. The first half is the
+     * intersection, and the second half is the difference.
+     */
+    operation: 'split',
+    manifold: CSGTree<MeshType> | MeshType,
+    cutter: CSGTree<MeshType> | MeshType,
+} | {
+    /**
+     * Cut a manifold in two with a plane. The first half is in the direction
+     * of the plane's normal, and the second half is on the opposite side. The
+     * origin offset is the distance of the plane from the origin along the
+     * normal.
+     */
+    operation: 'splitByPlane',
+    manifold: CSGTree<MeshType> | MeshType,
+    normal: Vec3,
+    originOffset: number,
+} | {
+    /**
+     * Get the outline of the intersection between a manifold and a plane
+     * parallel to the XY plane, at the given Z height. Rotate the manifold
+     * beforehand to slice along other axes.
+     */
+    operation: 'slice',
+    manifold: CSGTree<MeshType> | MeshType,
+    height: number,
+} | {
+    /**
+     * Get the outline of the shadow of a manifold projected onto the XY plane.
+     */
+    operation: 'project',
+    manifold: CSGTree<MeshType> | MeshType,
+} | {
+    /**
+     * Get the mass, volume, surface area, center of mass and inertia tensor
+     * of a manifold, assuming a uniform density (1 by default).
+     */
+    operation: 'getMassProperties',
+    manifold: CSGTree<MeshType> | MeshType,
+    density?: number,
+} | {
+    /**
+     * Get the minimum distance between the surfaces of two manifolds. Only
+     * distances up to the search length are checked; if the manifolds are
+     * further apart than the search length, then the search length is
+     * returned.
+     */
+    operation: 'minGap',
+    manifold: CSGTree<MeshType> | MeshType,
+    other: CSGTree<MeshType> | MeshType,
+    searchLength: number,
+} | {
+    /**
+     * Check whether two manifolds overlap; true if their intersection has a
+     * volume. Manifolds that only touch don't overlap.
+     */
+    operation: 'overlaps',
+    manifold: CSGTree<MeshType> | MeshType,
+    other: CSGTree<MeshType> | MeshType,
 };
\ No newline at end of file
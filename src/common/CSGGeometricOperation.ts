@@ -1,5 +1,11 @@
-import type { Mat4, Polygons, Vec2, Vec3 } from 'manifold-3d';
+import type { Box, Mat4, Polygons, Vec2, Vec3 } from 'manifold-3d';
+import type { CSGCrossSection } from './CSGCrossSection';
+import type { CSGSurfaceOptions } from './CSGSurfaceOptions';
 import type { CSGTree } from './CSGTree';
+import type { SDFExpression } from './SDFExpression';
+import type { SDFModule } from './SDFModule';
+import type { BuiltinWarp } from './BuiltinWarp';
+import type { WarpModule } from './WarpModule';
 
 /**
  * A CSG operation in a CSG operation tree that returns a manifold, and
@@ -37,21 +43,106 @@ export type CSGGeometricOperation<MeshType> = (
             splits: number,
         } | {
             operation: 'asOriginal',
+        } | {
+            /**
+             * Remove everything behind a plane. The plane's normal points
+             * towards the part that is kept, and the origin offset is the
+             * distance of the plane from the origin along the normal.
+             */
+            operation: 'trimByPlane',
+            normal: Vec3,
+            originOffset: number,
+        } | {
+            /**
+             * Reflect a manifold across a plane that passes through the
+             * origin, with the given normal. The winding order, normals and
+             * tangents of the result are fixed so that it isn't inside-out.
+             */
+            operation: 'mirror',
+            normal: Vec3,
+        } | {
+            /**
+             * Move the vertices of a manifold with a deformation function,
+             * either from the built-in library, or exported by a module. The
+             * topology of the manifold is not changed, so the manifold should
+             * be refined beforehand if the deformation needs more vertices.
+             * Normals are recalculated if they are needed.
+             */
+            operation: 'warp',
+            deformation: BuiltinWarp | WarpModule,
+        } | {
+            /**
+             * Grow (positive distance) or shrink (negative distance) a
+             * manifold by a distance, rounding its edges and corners. This is a
+             * Minkowski sum (or difference) with a sphere; the sphere's
+             * circular segments can be specified to control the quality of
+             * the rounding.
+             */
+            operation: 'offset',
+            distance: number,
+            circularSegments?: number,
         }
     )
 ) | {
+    /**
+     * Group disjoint manifolds into a single manifold without doing a union.
+     * The manifolds must not overlap, otherwise the result is not valid.
+     */
+    operation: 'compose',
+    manifolds: Array<CSGTree<MeshType> | MeshType>,
+} | {
+    /**
+     * The convex hull of a list of manifolds, and optionally of extra points.
+     * The hull's triangles get the material that covers the most triangles in
+     * the input manifolds.
+     */
+    operation: 'hull',
+    manifolds: Array<CSGTree<MeshType> | MeshType>,
+    points?: Array<Vec3>,
+} | {
+    /**
+     * The Minkowski sum of a manifold and a convex kernel, such as a sphere or
+     * a cube. If the kernel is not convex, then its convex hull is used. The
+     * faces swept by the kernel get the material of the face they were swept
+     * from. This is slow for manifolds with many triangles, unless the
+     * manifold is convex and all its faces have the same material.
+     */
+    operation: 'minkowski',
+    manifold: CSGTree<MeshType> | MeshType,
+    kernel: CSGTree<MeshType> | MeshType,
+} | {
+    /**
+     * Extrude a cross-section along the Z axis. The cross-section can either
+     * be a list of polygons, or a tree of 2D operations. Accepts the same
+     * surface options as CSG primitives.
+     */
     operation: 'extrude',
-    crossSection: Polygons,
+    crossSection: Polygons | CSGCrossSection,
     height: number,
     nDivisions?: number,
     twistDegrees?: number,
     scaleTop?: Vec2,
-} | {
+} & CSGSurfaceOptions | {
+    /**
+     * Revolve a cross-section around the Y axis, creating a solid of
+     * revolution along the Z axis. The cross-section can either be a list of
+     * polygons, or a tree of 2D operations. Accepts the same surface options
+     * as CSG primitives.
+     */
     operation: 'revolve',
-    crossSection: Polygons,
+    crossSection: Polygons | CSGCrossSection,
     circularSegments?: number,
+} & CSGSurfaceOptions | {
+    /**
+     * Create a manifold from the surface of a signed distance function, by
+     * sampling it in a grid inside the given bounds. The edge length is the
+     * approximate maximum edge length of the resulting triangles, which
+     * controls the grid's spacing. The level can be used to inset (positive
+     * values) or outset (negative values) the surface.
+     */
+    operation: 'levelSet',
+    sdf: SDFExpression | SDFModule,
+    bounds: Box,
+    edgeLength: number,
+    level?: number,
 };
-
-// TODO compose/decompose
-// TODO warp and sdf (levelset) operation. callbacks can either be encoded, or
-// passed as a script url
\ No newline at end of file
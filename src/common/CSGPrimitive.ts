@@ -1,9 +1,14 @@
+import type { Vec3 } from 'manifold-3d';
+import type { CSGSurfaceOptions } from './CSGSurfaceOptions';
+
 /**
- * A Manifold CSG primitive. Using procedural meshes is preferred over this as
- * Manifold always creates surfaces with smooth normals, no tangents and no
- * texture coordinates.
+ * A Manifold CSG primitive. Primitives that are round, or have an axis, are
+ * aligned to the Z axis, like in Manifold. By default, primitives have no
+ * material or texture coordinates, but surface options can be passed to give
+ * them a material, generated texture coordinates and generated tangents. Note
+ * that procedural meshes usually have better texture coordinates.
  */
-export type CSGPrimitive = {
+export type CSGPrimitive = CSGSurfaceOptions & ({
     primitive: 'cube',
     size?: [number, number, number] | number,
     center?: boolean,
@@ -20,4 +25,37 @@ export type CSGPrimitive = {
     circularSegments?: number,
 } | {
     primitive: 'tetrahedron',
-};
\ No newline at end of file
+} | {
+    /**
+     * A torus around the Z axis, centered at the origin. The major radius is
+     * the distance from the center of the torus to the center of the tube,
+     * and the minor radius is the radius of the tube.
+     */
+    primitive: 'torus',
+    majorRadius: number,
+    minorRadius: number,
+    majorSegments?: number,
+    minorSegments?: number,
+} | {
+    /**
+     * A cylinder with hemispherical caps along the Z axis. The height is the
+     * distance between the centers of both caps, so the total height is the
+     * height plus twice the radius. The bottom cap is centered at the origin,
+     * unless the capsule is centered.
+     */
+    primitive: 'capsule',
+    height: number,
+    radius: number,
+    circularSegments?: number,
+    center?: boolean,
+} | {
+    /**
+     * A closed polyhedron made from a list of vertices and a list of faces,
+     * where each face is a list of vertex indices. Faces must be planar and
+     * convex, and their vertices must be in counter-clockwise order when
+     * seen from outside the polyhedron.
+     */
+    primitive: 'polyhedron',
+    vertices: Array<Vec3>,
+    faces: Array<Array<number>>,
+});
@@ -0,0 +1,28 @@
+import type { Material } from '@wonderlandengine/api';
+
+/**
+ * Options for the surface of manifolds that are generated from scratch, such
+ * as CSG primitives, so that they can be mixed with procedural meshes without
+ * looking different.
+ */
+export type CSGSurfaceOptions = {
+    /**
+     * The material of the generated faces. Null by default. Materials are
+     * replaced with material indices when the operation tree is dispatched.
+     */
+    material?: Material | number | null,
+    /**
+     * Generate texture coordinates (and tangents) by projecting each face onto
+     * the axis-aligned plane closest to it. False by default. Only used if
+     * other meshes in the same job have texture coordinates or tangents.
+     */
+    generateUVs?: boolean,
+    /** The scale of the generated texture coordinates. 1 by default. */
+    uvScale?: number,
+    /**
+     * The minimum angle, in degrees, between 2 faces for their shared edge to
+     * be sharp when generating normals. 60 by default. Normals are only
+     * generated if other meshes in the same job have normals.
+     */
+    sharpAngle?: number,
+};
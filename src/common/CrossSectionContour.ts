@@ -0,0 +1,12 @@
+import type { vec2 } from 'gl-matrix';
+
+/**
+ * A closed contour of a 2D outline, returned by the slice and project CSG
+ * operations. Outer loops are counter-clockwise, and holes are clockwise.
+ */
+export type CrossSectionContour = {
+    /** The points of the contour, in order. The last point is not repeated. */
+    polyline: Array<vec2>,
+    /** Is this contour a hole inside an outer loop? */
+    isHole: boolean,
+};
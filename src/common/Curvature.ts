@@ -0,0 +1,13 @@
+/**
+ * The curvature of a manifold, returned by the getCurvature final CSG
+ * operation. Per-vertex curvatures are in the same order as the vertices of
+ * the manifold's mesh.
+ */
+export type Curvature = {
+    maxMeanCurvature: number,
+    minMeanCurvature: number,
+    maxGaussianCurvature: number,
+    minGaussianCurvature: number,
+    vertMeanCurvature: Array<number>,
+    vertGaussianCurvature: Array<number>,
+};
@@ -0,0 +1,13 @@
+/**
+ * A reference to a mesh that was uploaded to a Manifold worker, used in place
+ * of an {@link EncodedMeshGroup}.
+ */
+export interface EncodedMeshHandle {
+    /** The ID of the uploaded mesh. */
+    handle: number;
+    /**
+     * Maps the material IDs of the uploaded mesh to the material IDs of the
+     * job that the mesh is used in.
+     */
+    materials: Array<number>;
+}
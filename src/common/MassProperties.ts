@@ -0,0 +1,19 @@
+import type { Mat3, Vec3 } from 'manifold-3d';
+
+/**
+ * The mass properties of a manifold with a uniform density, returned by the
+ * getMassProperties final CSG operation. Useful for setting up physics bodies.
+ */
+export type MassProperties = {
+    /** The mass of the manifold; its volume multiplied by its density. */
+    mass: number,
+    volume: number,
+    surfaceArea: number,
+    /** The center of mass of the manifold. */
+    centroid: Vec3,
+    /**
+     * The inertia tensor of the manifold, relative to its center of mass, as
+     * a column-major 3x3 matrix.
+     */
+    inertia: Mat3,
+};
@@ -0,0 +1,23 @@
+/**
+ * A serialisable expression for a signed distance function (SDF), used by the
+ * levelSet CSG operation. Numbers are constants, and "x", "y" and "z" are the
+ * coordinates of the point being sampled. The SDF must return positive values
+ * inside the surface and negative values outside it.
+ *
+ * For example, a sphere with a radius of 1 is:
+ * `{ op: 'sub', args: [1, { op: 'length', args: ['x', 'y', 'z'] }] }`
+ */
+export type SDFExpression = number | 'x' | 'y' | 'z' | {
+    /**
+     * Operations with any number of arguments. "length" is the length of the
+     * vector made from all the arguments.
+     */
+    op: 'add' | 'mul' | 'min' | 'max' | 'length',
+    args: Array<SDFExpression>,
+} | {
+    op: 'sub' | 'div' | 'pow' | 'atan2',
+    args: [SDFExpression, SDFExpression],
+} | {
+    op: 'neg' | 'abs' | 'sqrt' | 'exp' | 'log' | 'sin' | 'cos' | 'floor',
+    arg: SDFExpression,
+};
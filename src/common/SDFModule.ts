@@ -0,0 +1,13 @@
+/**
+ * A signed distance function (SDF) exported by a JavaScript module, used by
+ * the levelSet CSG operation. The module is imported inside the worker, and
+ * the exported function is called with the point being sampled as a
+ * `[x, y, z]` array. The SDF must return positive values inside the surface and
+ * negative values outside it.
+ */
+export type SDFModule = {
+    /** The URL of the module. Imported with a dynamic import. */
+    module: string,
+    /** The name of the exported function. "default" by default. */
+    exportName?: string,
+};
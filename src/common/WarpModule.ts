@@ -0,0 +1,12 @@
+/**
+ * A deformation function exported by a JavaScript module, used by the warp CSG
+ * operation. The module is imported inside the worker, and the exported
+ * function is called with each vertex position as a `[x, y, z]` array, which
+ * must be modified in-place.
+ */
+export type WarpModule = {
+    /** The URL of the module. Imported with a dynamic import. */
+    module: string,
+    /** The name of the exported function. "default" by default. */
+    exportName?: string,
+};
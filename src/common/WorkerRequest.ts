@@ -1,8 +1,12 @@
 import type { CSGOperation } from './CSGOperation';
 import type { EncodedMeshGroup } from './EncodedMeshGroup';
+import type { EncodedMeshHandle } from './EncodedMeshHandle';
 
-/** A CSG operation tree with serialized meshes. */
-export type WorkerOperation = CSGOperation<EncodedMeshGroup>;
+/**
+ * A CSG operation tree with serialized meshes, or references to meshes that
+ * were uploaded to the worker or kept resident in it.
+ */
+export type WorkerOperation = CSGOperation<EncodedMeshGroup | EncodedMeshHandle>;
 
 /** A request to a Gypsum worker. */
 export type WorkerRequest = {
@@ -14,4 +18,24 @@ export type WorkerRequest = {
     type: 'operation',
     jobID: number,
     operation: WorkerOperation,
+    resident: number | null,
+    progress: boolean,
+    sharedMemory: boolean,
+} | {
+    type: 'batch',
+    jobID: number,
+    operations: Array<WorkerOperation>,
+    residents: Array<number | null>,
+    progress: boolean,
+    sharedMemory: boolean,
+} | {
+    type: 'cancel',
+    jobID: number,
+} | {
+    type: 'upload',
+    handle: number,
+    meshGroup: EncodedMeshGroup,
+} | {
+    type: 'release',
+    handle: number,
 };
\ No newline at end of file
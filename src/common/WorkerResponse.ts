@@ -1,5 +1,8 @@
-import type { Box, Curvature, Properties } from 'manifold-3d';
+import type { Box, Properties } from 'manifold-3d';
+import type { CrossSectionContour } from './CrossSectionContour';
+import type { Curvature } from './Curvature';
 import type { EncodedMeshGroup } from './EncodedMeshGroup';
+import type { MassProperties } from './MassProperties';
 
 /** The type of a {@link WorkerResult} */
 export enum WorkerResultType {
@@ -7,16 +10,26 @@ export enum WorkerResultType {
     Passthrough,
     /** The value should be decoded as a MeshGroup */
     MeshGroup,
+    /** The value should be decoded as a list of MeshGroups */
+    MeshGroupList,
+    /**
+     * The value is the handle of a manifold that was kept resident in the
+     * worker
+     */
+    Resident,
+    /** The value is a list of results from a batch of CSG operations */
+    Batch,
 }
 
 /** A {@link WorkerResult} value that is passed through as-is */
-export type WorkerResultPassthroughValue = boolean | number | Box | Properties | Curvature;
+export type WorkerResultPassthroughValue = boolean | number | Box | Properties | Curvature | MassProperties | Array<CrossSectionContour>;
 
 /**
- * A result from a CSG operation; either a value that is passed-through, or a
- * MeshGroup that needs to be decoded.
+ * A result from a CSG operation; either a value that is passed-through, one or
+ * more MeshGroups that need to be decoded, the handle of a manifold that was
+ * kept resident in the worker, or a list of results from a batch.
  */
-export type WorkerResult = [type: WorkerResultType.Passthrough, value: WorkerResultPassthroughValue] | [type: WorkerResultType.MeshGroup, value: EncodedMeshGroup];
+export type WorkerResult = [type: WorkerResultType.Passthrough, value: WorkerResultPassthroughValue] | [type: WorkerResultType.MeshGroup, value: EncodedMeshGroup] | [type: WorkerResultType.MeshGroupList, value: Array<EncodedMeshGroup>] | [type: WorkerResultType.Resident, value: number] | [type: WorkerResultType.Batch, value: Array<WorkerResult>];
 
 /** A response from a Gypsum worker. */
 export type WorkerResponse = {
@@ -28,6 +41,14 @@ export type WorkerResponse = {
 } | {
     type: 'crash',
     error: unknown,
+} | {
+    type: 'cancelled',
+    jobID: number,
+} | {
+    type: 'progress',
+    jobID: number,
+    evaluated: number,
+    total: number,
 } | {
     type: 'result',
     success: true,
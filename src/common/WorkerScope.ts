@@ -0,0 +1,17 @@
+import type { WorkerResponse } from './WorkerResponse';
+
+/**
+ * The environment-specific parts of a Gypsum worker, such as a web worker or
+ * a Node.js worker thread.
+ */
+export interface WorkerScope {
+    /** The name of the worker, used for logging. */
+    readonly name: string;
+    /**
+     * Send a response to the pool that owns this worker.
+     *
+     * @param response - The response to send.
+     * @param transfer - The list of objects to transfer to the pool instead of copying.
+     */
+    postMessage(response: WorkerResponse, transfer: Array<Transferable>): void;
+}
@@ -0,0 +1,131 @@
+import type { Vec3 } from 'manifold-3d';
+import type { SDFExpression } from './SDFExpression';
+
+type CompiledSDF = (point: Vec3) => number;
+
+function compileArgs(args: Array<SDFExpression>): Array<CompiledSDF> {
+    return args.map((arg) => compileSDFExpression(arg));
+}
+
+/**
+ * Compile a serialisable SDF expression into a function which can be passed to
+ * Manifold. Expressions are compiled into closures instead of being
+ * interpreted, since the SDF is sampled many times.
+ */
+export function compileSDFExpression(expression: SDFExpression): CompiledSDF {
+    if (typeof expression === 'number') {
+        return () => expression;
+    }
+
+    switch (expression) {
+        case 'x':
+            return (point) => point[0];
+        case 'y':
+            return (point) => point[1];
+        case 'z':
+            return (point) => point[2];
+    }
+
+    switch (expression.op) {
+        case 'add': {
+            const args = compileArgs(expression.args);
+            return (point) => {
+                let value = 0;
+                for (const arg of args) {
+                    value += arg(point);
+                }
+                return value;
+            };
+        }
+        case 'mul': {
+            const args = compileArgs(expression.args);
+            return (point) => {
+                let value = 1;
+                for (const arg of args) {
+                    value *= arg(point);
+                }
+                return value;
+            };
+        }
+        case 'min': {
+            const args = compileArgs(expression.args);
+            return (point) => {
+                let value = Infinity;
+                for (const arg of args) {
+                    value = Math.min(value, arg(point));
+                }
+                return value;
+            };
+        }
+        case 'max': {
+            const args = compileArgs(expression.args);
+            return (point) => {
+                let value = -Infinity;
+                for (const arg of args) {
+                    value = Math.max(value, arg(point));
+                }
+                return value;
+            };
+        }
+        case 'length': {
+            const args = compileArgs(expression.args);
+            return (point) => {
+                let value = 0;
+                for (const arg of args) {
+                    const component = arg(point);
+                    value += component * component;
+                }
+                return Math.sqrt(value);
+            };
+        }
+        case 'sub':
+        case 'div':
+        case 'pow':
+        case 'atan2': {
+            const [a, b] = compileArgs(expression.args);
+            switch (expression.op) {
+                case 'sub':
+                    return (point) => a(point) - b(point);
+                case 'div':
+                    return (point) => a(point) / b(point);
+                case 'pow':
+                    return (point) => Math.pow(a(point), b(point));
+                case 'atan2':
+                    return (point) => Math.atan2(a(point), b(point));
+            }
+            break;
+        }
+        case 'neg':
+        case 'abs':
+        case 'sqrt':
+        case 'exp':
+        case 'log':
+        case 'sin':
+        case 'cos':
+        case 'floor': {
+            const arg = compileSDFExpression(expression.arg);
+            switch (expression.op) {
+                case 'neg':
+                    return (point) => -arg(point);
+                case 'abs':
+                    return (point) => Math.abs(arg(point));
+                case 'sqrt':
+                    return (point) => Math.sqrt(arg(point));
+                case 'exp':
+                    return (point) => Math.exp(arg(point));
+                case 'log':
+                    return (point) => Math.log(arg(point));
+                case 'sin':
+                    return (point) => Math.sin(arg(point));
+                case 'cos':
+                    return (point) => Math.cos(arg(point));
+                case 'floor':
+                    return (point) => Math.floor(arg(point));
+            }
+            break;
+        }
+    }
+
+    // XXX fighting the type system again...
+    throw new Error(`Unknown SDF expression: ${JSON.stringify(expression)}`);
+}
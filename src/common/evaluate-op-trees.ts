@@ -0,0 +1,1561 @@
+import { iterateOpTree } from './iterate-operation-tree';
+import { WorkerResultType } from './WorkerResponse';
+import { MeshAttribute } from '@wonderlandengine/api';
+import { getComponentCount } from './getComponentCount';
+import { makeIndexBuffer } from './makeIndexBuffer';
+import { makeTypedArray } from './make-typed-array';
+import { optimizeIndexData } from './optimize-index-data';
+import { mat3, vec2, vec3 } from 'gl-matrix';
+import { compileSDFExpression } from './compile-sdf-expression';
+import { makeBuiltinWarp } from './make-builtin-warp';
+import isClockwise2DPolygon from './is-clockwise-2d-polygon';
+
+import type { WorkerOperation } from './WorkerRequest';
+import type { WorkerResult, WorkerResultPassthroughValue } from './WorkerResponse';
+import type { ManifoldToplevel, Manifold, CrossSection, Polygons, Vec2, Vec3 } from 'manifold-3d';
+import type { AllowedExtraMeshAttribute } from './AllowedExtraMeshAttribute';
+import type { EncodedSubmesh } from './EncodedSubmesh';
+import type { MergeMap } from './MergeMap';
+import type { EncodedMeshGroup } from './EncodedMeshGroup';
+import type { EncodedMeshHandle } from './EncodedMeshHandle';
+import type { Curvature } from './Curvature';
+import type { CSGCrossSection } from './CSGCrossSection';
+import type { CSGSurfaceOptions } from './CSGSurfaceOptions';
+import type { CrossSectionContour } from './CrossSectionContour';
+import type { MassProperties } from './MassProperties';
+import type { SDFExpression } from './SDFExpression';
+import type { SDFModule } from './SDFModule';
+import type { WarpModule } from './WarpModule';
+
+type AttributeMapping = Array<[attrType: AllowedExtraMeshAttribute, offset: number, componentSize: number]>;
+type MeshRun = [originalID: number, materialID: number | null, wantedExtraAttributes: Array<number>];
+type CachedManifold = [manifold: Manifold, runs: Array<MeshRun>];
+/**
+ * Meshes uploaded to a worker, or kept resident after an operation, by handle.
+ * Uploaded meshes are converted to Manifold objects when first used.
+ */
+export type UploadedMeshMap = Map<number, EncodedMeshGroup | CachedManifold>;
+
+const IDENTITY_3X3_COL_MAJ = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+
+// minimum dihedral angle, in degrees, at which the edges of manifolds generated
+// in the worker, such as convex hulls, are treated as sharp when calculating
+// normals
+const GENERATED_MIN_SHARP_ANGLE = 60;
+
+// minimum time, in milliseconds, between progress reports of a job
+const PROGRESS_INTERVAL = 100;
+
+// minimum time, in milliseconds, between yields of a job, when yielding is
+// enabled
+const YIELD_INTERVAL = 50;
+
+// a vertex property layout which has space for all supported extra mesh
+// attributes. used for uploaded meshes and resident manifolds, since the layout
+// of a manifold can't be changed after it's created
+const CANONICAL_ATTRIBUTE_MAPPING: AttributeMapping = [];
+let CANONICAL_NUM_PROP = 3;
+for (const attrType of [MeshAttribute.Tangent, MeshAttribute.Normal, MeshAttribute.TextureCoordinate, MeshAttribute.Color] as Array<AllowedExtraMeshAttribute>) {
+    const componentSize = getComponentCount(attrType);
+    CANONICAL_ATTRIBUTE_MAPPING.push([attrType, CANONICAL_NUM_PROP, componentSize]);
+    CANONICAL_NUM_PROP += componentSize;
+}
+
+const importedModules = new Map<string, Record<string, unknown>>();
+
+function popManifolds(stack: Array<Manifold>, wantedCount: number): Array<Manifold> {
+    const manifolds = new Array<Manifold>();
+
+    for (let i = 0; i < wantedCount; i++) {
+        const next = stack.pop();
+        if (next === undefined) {
+            throw new Error(`Expected ${wantedCount} manifolds in the stack, got ${i}`);
+        }
+
+        manifolds.push(next);
+    }
+
+    return manifolds;
+}
+
+const boolOpMap: Record<string, 'union' | 'difference' | 'intersection'> = {
+    add: 'union',
+    union: 'union',
+    subtract: 'difference',
+    difference: 'difference',
+    intersect: 'intersection',
+    intersection: 'intersection',
+};
+
+/**
+ * Convert an encoded MeshGroup to a Manifold object, given a vertex property
+ * layout. Returns the Manifold object and the mesh runs; the original ID,
+ * material ID and wanted extra attribute indices of each submesh.
+ */
+function meshGroupToManifold(manifoldModule: ManifoldToplevel, encodedMeshGroup: EncodedMeshGroup, attributeMapping: AttributeMapping, numProp: number): CachedManifold {
+    const commonAttrCount = attributeMapping.length;
+    const runs = new Array<MeshRun>();
+
+    // convert encoded meshgroup to manifold
+    const submeshes = encodedMeshGroup.submeshes;
+    const submeshCount = submeshes.length;
+    const originalIDStart = submeshCount > 0 ? manifoldModule.Manifold.reserveIDs(submeshCount) : null;
+    let mergeFromVert: Uint32Array | undefined;
+    let mergeToVert: Uint32Array | undefined;
+    let runOriginalID: Uint32Array | undefined;
+    let runIndex: Uint32Array | undefined;
+    let vertProperties: Float32Array;
+    let triVerts: Uint32Array;
+
+    if (originalIDStart !== null) {
+        // calculate total vertex/index count
+        let totalVertexCount = 0;
+        let totalIndexCount = 0;
+        for (const submesh of submeshes) {
+            const vertexCount = submesh.positions.length / 3;
+            totalVertexCount += vertexCount;
+            const indices = submesh.indices;
+            totalIndexCount += indices === null ? vertexCount : indices.length;
+        }
+
+        // convert to buffers usable by MeshJS
+        vertProperties = new Float32Array(totalVertexCount * numProp);
+        triVerts = new Uint32Array(totalIndexCount);
+        runOriginalID = new Uint32Array(submeshCount);
+        runIndex = new Uint32Array(submeshCount + 1);
+        runIndex[0] = 0;
+        let indexOffset = 0;
+        let processedVertexCount = 0;
+
+        for (let m = 0; m < submeshCount; m++) {
+            // save manifold ids and map manifold ids back to material ids
+            const encodedSubmesh = submeshes[m];
+            const originalID = originalIDStart + m;
+            runOriginalID[m] = originalID;
+
+            // save wanted attributes
+            const wanted = new Array<number>();
+            for (const [attrType, _attrArray] of encodedSubmesh.extraAttributes) {
+                for (let a = 0; a < commonAttrCount; a++) {
+                    const oAttrType = attributeMapping[a][0];
+                    if (attrType === oAttrType) {
+                        wanted.push(a);
+                        break;
+                    }
+                }
+            }
+
+            runs.push([originalID, encodedSubmesh.materialID, wanted]);
+
+            // store indices in common mesh. if mesh is not indexed, make
+            // it. move index offset too
+            const indices = encodedSubmesh.indices;
+            const positions = encodedSubmesh.positions;
+            const posCompCount = positions.length;
+            const vertexCount = posCompCount / 3;
+
+            if (indices === null) {
+                for (let j = 0; j < vertexCount; j++) {
+                    triVerts[indexOffset + j] = processedVertexCount + j;
+                }
+
+                indexOffset += vertexCount;
+            } else {
+                const indexCount = indices.length;
+                for (let j = 0; j < indexCount; j++) {
+                    triVerts[indexOffset + j] = processedVertexCount + indices[j];
+                }
+
+                indexOffset += indices.length;
+            }
+
+            // update runIndex
+            runIndex[m + 1] = indexOffset;
+
+            // interlace positions into common mesh
+            for (let j = 0, offset = processedVertexCount * numProp; j < posCompCount; offset += numProp) {
+                vertProperties[offset    ] = positions[j++];
+                vertProperties[offset + 1] = positions[j++];
+                vertProperties[offset + 2] = positions[j++];
+            }
+
+            // interlace extra attributes into common mesh
+            for (const [attrType, attrArray] of encodedSubmesh.extraAttributes) {
+                // get per-vertex offset of attribute type
+                let attrOffset: number | null = null;
+                let attrCompSize: number | null = null;
+                for (const [oAttrType, oAttrOffset, oAttrCompSize] of attributeMapping) {
+                    if (attrType === oAttrType) {
+                        attrOffset = oAttrOffset;
+                        attrCompSize = oAttrCompSize;
+                        break;
+                    }
+                }
+
+                if (attrOffset === null || attrCompSize === null) {
+                    throw new Error(`Unexpected missing attribute type ID ${attrType}, which should have been previously mapped. This is a bug, please report it`);
+                }
+
+                // interlace
+                const attrArrayLen = attrArray.length;
+                for (let j = 0, offset = processedVertexCount * numProp + attrOffset; j < attrArrayLen; offset += numProp) {
+                    for (let k = 0; k < attrCompSize; k++) {
+                        vertProperties[offset + k] = attrArray[j++];
+                    }
+                }
+            }
+
+            // increment processed vertex count
+            processedVertexCount += vertexCount;
+        }
+
+        // extract merge map
+        if (encodedMeshGroup.mergeMap) {
+            [mergeFromVert, mergeToVert] = encodedMeshGroup.mergeMap;
+        }
+    } else {
+        // empty mesh
+        vertProperties = new Float32Array();
+        triVerts = new Uint32Array();
+    }
+
+    // convert meshgroup -> meshjs -> manifold
+    const mesh = new manifoldModule.Mesh({
+        numProp, vertProperties, triVerts, runIndex, runOriginalID,
+        mergeFromVert, mergeToVert
+    });
+
+    return [new manifoldModule.Manifold(mesh), runs];
+}
+
+/**
+ * Get the Manifold object of an uploaded mesh or resident manifold. If the
+ * uploaded mesh has not been converted to a Manifold object yet, then it's
+ * converted and cached.
+ */
+function getUploadedManifold(manifoldModule: ManifoldToplevel, uploadedMeshes: UploadedMeshMap, handle: number): CachedManifold {
+    const uploaded = uploadedMeshes.get(handle);
+    if (uploaded === undefined) {
+        throw new Error(`Mesh handle ${handle} was not uploaded to this worker, or was already released`);
+    }
+
+    if (Array.isArray(uploaded)) {
+        return uploaded;
+    }
+
+    // XXX uploaded meshes always use the canonical layout, so that they can
+    // be mixed with any other mesh
+    const cached = meshGroupToManifold(manifoldModule, uploaded, CANONICAL_ATTRIBUTE_MAPPING, CANONICAL_NUM_PROP);
+    uploadedMeshes.set(handle, cached);
+    return cached;
+}
+
+/**
+ * Convert a Manifold object to an encoded MeshGroup, given the vertex property
+ * layout that was used to create it, and the material and wanted extra
+ * attributes of each original ID. If shared is true, then the deinterlaced
+ * buffers are backed by SharedArrayBuffers instead of being transferred.
+ */
+function manifoldToMeshGroup(top: Manifold, attributeMapping: AttributeMapping, materialMap: Map<number, number>, wantedExtraAttributes: Map<number, Array<number>>, transfer: Array<Transferable>, shared: boolean): EncodedMeshGroup {
+    // convert manifold -> meshjs, and transform normals
+    let normalIdx: Vec3 | undefined;
+    for (const [attrType, attrOffset, _attrCompSize] of attributeMapping) {
+        if (attrType === MeshAttribute.Normal) {
+            normalIdx = [attrOffset, attrOffset + 1, attrOffset + 2];
+            break;
+        }
+    }
+
+    const outMesh = top.getMesh(normalIdx);
+
+    // unpack meshjs
+    const runOriginalID = outMesh.runOriginalID;
+    if (runOriginalID === undefined) {
+        throw new Error('Missing runOriginalID in resulting MeshJS object');
+    }
+
+    const runIndex = outMesh.runIndex;
+    if (runIndex === undefined) {
+        throw new Error('Missing runIndex in resulting MeshJS object');
+    }
+
+    const runTransform = outMesh.runTransform;
+    const triVerts = outMesh.triVerts;
+    const outNumProp = outMesh.numProp;
+    const vertProperties = outMesh.vertProperties;
+
+    // extract merge map if present
+    let mergeMap: MergeMap | null = null;
+    if (outMesh.mergeFromVert && outMesh.mergeToVert) {
+        // TODO do we have to copy this, or is it safe as-is?
+        // XXX merge maps are always transferred, even when using shared
+        // memory, since they are already copied out of the Manifold module
+        mergeMap = [outMesh.mergeFromVert, outMesh.mergeToVert];
+        transfer.push(mergeMap[0].buffer);
+        transfer.push(mergeMap[1].buffer);
+    }
+
+    // deinterlace meshjs -> encodedmeshgroup
+    const submeshes = new Array<EncodedSubmesh>();
+    const submeshCount = runOriginalID.length;
+
+    // XXX a scatter table is used to map manifold vertex indices to submesh
+    // vertex indices, instead of searching the list of used vertices for each
+    // index, so that deinterlacing is linear in the vertex count. the table is
+    // shared by all runs and never cleared; an entry is only valid if its
+    // stamp matches the current run
+    const vertCount = vertProperties.length / outNumProp;
+    const scatterTable = new Uint32Array(vertCount);
+    const scatterStamps = new Int32Array(vertCount).fill(-1);
+    const vertexOffsets = new Uint32Array(vertCount);
+
+    for (let m = 0; m < submeshCount; m++) {
+        // get material mapped to this run (submesh)
+        const originalID = runOriginalID[m];
+        const materialID = materialMap.get(originalID) ?? null;
+
+        // get list of vertices, and convert index buffer to usable
+        // format
+        const runStart = runIndex[m];
+        const runEnd = runIndex[m + 1];
+        const runLength = runEnd - runStart;
+
+        if (runLength === 0) {
+            // skip empty submeshes
+            continue;
+        }
+
+        // XXX this index buffer is not 100% efficient, hence why it's
+        // called the transitory index buffer; it will be converted to
+        // the final, more efficient form later (unless the target type
+        // matches)
+        let [indices, indexType] = makeIndexBuffer(runLength, runLength, shared);
+
+        let vertexCount = 0;
+        for (let i = 0; i < runLength; i++) {
+            const iManif = triVerts[runStart + i];
+
+            if (scatterStamps[iManif] !== m) {
+                scatterStamps[iManif] = m;
+                scatterTable[iManif] = vertexCount;
+                vertexOffsets[vertexCount++] = iManif;
+            }
+
+            indices[i] = scatterTable[iManif];
+        }
+
+        // optimise index buffer
+        [indices, indexType] = optimizeIndexData(indices, indexType, runLength, vertexCount, shared);
+
+        if (!shared) {
+            transfer.push(indices.buffer);
+        }
+
+        // deinterlace position
+        const positions = makeTypedArray(Float32Array, vertexCount * 3, shared);
+        for (let i = 0, o = 0; i < vertexCount; i++) {
+            let iManif = vertexOffsets[i] * outNumProp;
+            positions[o++] = vertProperties[iManif++];
+            positions[o++] = vertProperties[iManif++];
+            positions[o++] = vertProperties[iManif];
+        }
+
+        if (!shared) {
+            transfer.push(positions.buffer);
+        }
+
+        // deinterlace extra attributes. faces that don't come from an input
+        // mesh, such as faces from primitives or from cutting planes, have no
+        // extra attributes
+        const submeshWantedExtra = wantedExtraAttributes.get(originalID) ?? [];
+
+        const extraAttributes = new Array<[AllowedExtraMeshAttribute, Float32Array]>();
+        for (const a of submeshWantedExtra) {
+            const [attrType, attrOffset, attrCompSize] = attributeMapping[a];
+            const attrArray = makeTypedArray(Float32Array, vertexCount * attrCompSize, shared);
+            let tangentTransform: mat3 | null = null;
+
+            if (runTransform && attrType === MeshAttribute.Tangent) {
+                const tanTrans = runTransform.slice(m * 12, m * 12 + 9);
+                let isIdentity = true;
+
+                for (let i = 0; i < 12; i++) {
+                    if (tanTrans[i] !== IDENTITY_3X3_COL_MAJ[i]) {
+                        isIdentity = false;
+                        break;
+                    }
+                }
+
+                if (!isIdentity) {
+                    // XXX gl-matrix is column-major and so is Manifold.
+                    // we can use it as the transform
+                    tangentTransform = tanTrans;
+                }
+            }
+
+            // XXX tangents aren't transformed by Manifold, so we need
+            // to manually apply rotations
+            if (tangentTransform) {
+                // mirrored runs flip the bitangent, so the handedness of the
+                // tangents (w component) also needs to be flipped
+                const flipHandedness = mat3.determinant(tangentTransform) < 0;
+
+                for (let i = 0, o = 0; i < vertexCount; i++, o += 4) {
+                    const iManif = vertexOffsets[i] * outNumProp + attrOffset;
+                    const tangent = vertProperties.slice(iManif, iManif + 4);
+                    vec3.transformMat3(tangent, tangent, tangentTransform);
+                    if (flipHandedness) {
+                        tangent[3] = -tangent[3];
+                    }
+
+                    attrArray.set(tangent, o);
+                }
+            } else {
+                for (let i = 0, o = 0; i < vertexCount; i++) {
+                    let iManif = vertexOffsets[i] * outNumProp + attrOffset;
+                    for (let j = 0; j < attrCompSize; j++) {
+                        attrArray[o++] = vertProperties[iManif++];
+                    }
+                }
+            }
+
+            extraAttributes.push([attrType, attrArray]);
+            if (!shared) {
+                transfer.push(attrArray.buffer);
+            }
+        }
+
+        // make encoded submesh
+        submeshes.push({ indices, positions, extraAttributes, materialID });
+    }
+
+    return { mergeMap, submeshes };
+}
+
+/**
+ * Prepare a Manifold object that was generated in the worker, such as a convex
+ * hull, so that it can be converted back to a mesh; its original ID is mapped
+ * to the given material, and its normals are calculated if the vertex property
+ * layout has normals. Generated attributes, such as texture coordinates that
+ * were already generated, are also marked as wanted. Takes ownership of the
+ * Manifold object.
+ */
+function prepareGeneratedManifold(manifold: Manifold, materialID: number | null, attributeMapping: AttributeMapping, materialMap: Map<number, number>, wantedExtraAttributes: Map<number, Array<number>>, sharpAngle = GENERATED_MIN_SHARP_ANGLE, generatedAttributes: Array<number> = []): Manifold {
+    const originalID = manifold.originalID();
+    if (materialID !== null) {
+        materialMap.set(originalID, materialID);
+    }
+
+    const normalAttr = attributeMapping.findIndex(([attrType, _attrOffset, _attrCompSize]) => attrType === MeshAttribute.Normal);
+    if (normalAttr < 0) {
+        wantedExtraAttributes.set(originalID, generatedAttributes);
+        return manifold;
+    }
+
+    // XXX property channels don't include the position
+    const withNormals = manifold.calculateNormals(attributeMapping[normalAttr][1] - 3, sharpAngle);
+    manifold.delete();
+    wantedExtraAttributes.set(originalID, [normalAttr, ...generatedAttributes]);
+    return withNormals;
+}
+
+/**
+ * Generate texture coordinates and tangents for a Manifold object, in the
+ * given vertex property layout, by projecting each triangle onto the
+ * axis-aligned plane closest to it. Vertices are split at texture seams. Only
+ * the attributes that exist in the layout are generated. Takes ownership of
+ * the Manifold object.
+ *
+ * @returns A tuple with the new Manifold object, and the indices of the generated attributes in the layout.
+ */
+function generateUVs(manifoldModule: ManifoldToplevel, manifold: Manifold, attributeMapping: AttributeMapping, numProp: number, uvScale: number): [manifold: Manifold, generatedAttributes: Array<number>] {
+    const uvAttr = attributeMapping.findIndex(([attrType, _attrOffset, _attrCompSize]) => attrType === MeshAttribute.TextureCoordinate);
+    const tangentAttr = attributeMapping.findIndex(([attrType, _attrOffset, _attrCompSize]) => attrType === MeshAttribute.Tangent);
+    if (uvAttr < 0 && tangentAttr < 0) {
+        return [manifold, []];
+    }
+
+    const inMesh = manifold.getMesh();
+    const inNumProp = inMesh.numProp;
+    const inVertProperties = inMesh.vertProperties;
+    const inTriVerts = inMesh.triVerts;
+    const indexCount = inTriVerts.length;
+
+    // each triangle corner gets its own vertex, which is merged with the first
+    // corner at the same position
+    const vertProperties = new Float32Array(indexCount * numProp);
+    const triVerts = new Uint32Array(indexCount);
+    const firstCorners = new Map<number, number>();
+    const mergeFrom = new Array<number>();
+    const mergeTo = new Array<number>();
+    const uvOffset = uvAttr < 0 ? -1 : attributeMapping[uvAttr][1];
+    const tangentOffset = tangentAttr < 0 ? -1 : attributeMapping[tangentAttr][1];
+    const positions = [vec3.create(), vec3.create(), vec3.create()];
+    const uvs = [vec2.create(), vec2.create(), vec2.create()];
+    const edge1 = vec3.create(), edge2 = vec3.create(), normal = vec3.create();
+    const tangent = vec3.create(), bitangent = vec3.create(), temp = vec3.create();
+
+    for (let i = 0; i < indexCount; i += 3) {
+        for (let j = 0; j < 3; j++) {
+            const inVert = inTriVerts[i + j];
+            const inOffset = inVert * inNumProp;
+            vec3.set(positions[j], inVertProperties[inOffset], inVertProperties[inOffset + 1], inVertProperties[inOffset + 2]);
+
+            const corner = i + j;
+            triVerts[corner] = corner;
+            const firstCorner = firstCorners.get(inVert);
+            if (firstCorner === undefined) {
+                firstCorners.set(inVert, corner);
+            } else {
+                mergeFrom.push(corner);
+                mergeTo.push(firstCorner);
+            }
+        }
+
+        vec3.sub(edge1, positions[1], positions[0]);
+        vec3.sub(edge2, positions[2], positions[0]);
+        vec3.cross(normal, edge1, edge2);
+        vec3.normalize(normal, normal);
+
+        // project onto the axis-aligned plane closest to the triangle, such
+        // that the texture isn't mirrored when seen from outside
+        const [nx, ny, nz] = normal;
+        const ax = Math.abs(nx), ay = Math.abs(ny), az = Math.abs(nz);
+        for (let j = 0; j < 3; j++) {
+            const [x, y, z] = positions[j];
+            if (ax >= ay && ax >= az) {
+                vec2.set(uvs[j], (nx >= 0 ? -z : z) * uvScale, y * uvScale);
+            } else if (ay >= az) {
+                vec2.set(uvs[j], x * uvScale, (ny >= 0 ? -z : z) * uvScale);
+            } else {
+                vec2.set(uvs[j], (nz >= 0 ? x : -x) * uvScale, y * uvScale);
+            }
+        }
+
+        // tangent from texture coordinate derivatives
+        const du1 = uvs[1][0] - uvs[0][0], dv1 = uvs[1][1] - uvs[0][1];
+        const du2 = uvs[2][0] - uvs[0][0], dv2 = uvs[2][1] - uvs[0][1];
+        const r = 1 / ((du1 * dv2 - du2 * dv1) || 1);
+        vec3.scale(tangent, edge1, dv2 * r);
+        vec3.scaleAndAdd(tangent, tangent, edge2, -dv1 * r);
+        vec3.scale(bitangent, edge2, du1 * r);
+        vec3.scaleAndAdd(bitangent, bitangent, edge1, -du2 * r);
+        vec3.scaleAndAdd(tangent, tangent, normal, -vec3.dot(normal, tangent));
+        vec3.normalize(tangent, tangent);
+        const handedness = vec3.dot(vec3.cross(temp, normal, tangent), bitangent) < 0 ? -1 : 1;
+
+        for (let j = 0; j < 3; j++) {
+            const offset = (i + j) * numProp;
+            vertProperties.set(positions[j], offset);
+
+            if (uvOffset >= 0) {
+                vertProperties.set(uvs[j], offset + uvOffset);
+            }
+
+            if (tangentOffset >= 0) {
+                vertProperties.set(tangent, offset + tangentOffset);
+                vertProperties[offset + tangentOffset + 3] = handedness;
+            }
+        }
+    }
+
+    manifold.delete();
+
+    const mesh = new manifoldModule.Mesh({
+        numProp, vertProperties, triVerts,
+        mergeFromVert: new Uint32Array(mergeFrom),
+        mergeToVert: new Uint32Array(mergeTo),
+    });
+
+    const generatedAttributes = new Array<number>();
+    if (uvAttr >= 0) {
+        generatedAttributes.push(uvAttr);
+    }
+    if (tangentAttr >= 0) {
+        generatedAttributes.push(tangentAttr);
+    }
+
+    // XXX manifolds made from meshes aren't originals until asOriginal is
+    // called, so they would have no original ID
+    const withUVs = new manifoldModule.Manifold(mesh);
+    const original = withUVs.asOriginal();
+    withUVs.delete();
+    return [original, generatedAttributes];
+}
+
+/**
+ * Prepare a Manifold object that was generated from scratch, such as a CSG
+ * primitive, according to its surface options. Takes ownership of the
+ * Manifold object.
+ */
+function prepareSurface(manifoldModule: ManifoldToplevel, manifold: Manifold, surface: CSGSurfaceOptions, attributeMapping: AttributeMapping, numProp: number, materialMap: Map<number, number>, wantedExtraAttributes: Map<number, Array<number>>): Manifold {
+    let generatedAttributes = new Array<number>();
+    if (surface.generateUVs) {
+        [manifold, generatedAttributes] = generateUVs(manifoldModule, manifold, attributeMapping, numProp, surface.uvScale ?? 1);
+    }
+
+    // XXX materials were replaced with material indices by the pool
+    const materialID = typeof surface.material === 'number' ? surface.material : null;
+    return prepareGeneratedManifold(manifold, materialID, attributeMapping, materialMap, wantedExtraAttributes, surface.sharpAngle, generatedAttributes);
+}
+
+/**
+ * Make a Manifold object from the vertices and convex faces of a polyhedron.
+ * Faces are triangulated as triangle fans.
+ */
+function makePolyhedron(manifoldModule: ManifoldToplevel, vertices: Array<Vec3>, faces: Array<Array<number>>): Manifold {
+    const vertProperties = new Float32Array(vertices.length * 3);
+    for (let v = 0; v < vertices.length; v++) {
+        vertProperties.set(vertices[v], v * 3);
+    }
+
+    const triVerts = new Array<number>();
+    for (const face of faces) {
+        if (face.length < 3) {
+            throw new Error(`Polyhedron faces must have at least 3 vertices, got ${face.length}`);
+        }
+
+        for (let i = 2; i < face.length; i++) {
+            triVerts.push(face[0], face[i - 1], face[i]);
+        }
+    }
+
+    const mesh = new manifoldModule.Mesh({
+        numProp: 3, vertProperties, triVerts: new Uint32Array(triVerts),
+    });
+
+    // XXX manifolds made from meshes aren't originals until asOriginal is
+    // called, so they would have no original ID
+    const manifold = new manifoldModule.Manifold(mesh);
+    const original = manifold.asOriginal();
+    manifold.delete();
+    return original;
+}
+
+/**
+ * Get the function exported by an SDF or warp module, which must have been
+ * loaded with {@link loadModules} before the job started.
+ */
+function getModuleFunction(moduleRef: SDFModule | WarpModule, kind: string): unknown {
+    const namespace = importedModules.get(moduleRef.module);
+    if (namespace === undefined) {
+        throw new Error(`${kind} module "${moduleRef.module}" was not loaded. This is a bug, please report it`);
+    }
+
+    const exportName = moduleRef.exportName ?? 'default';
+    const func = namespace[exportName];
+    if (typeof func !== 'function') {
+        throw new Error(`${kind} module "${moduleRef.module}" has no exported function named "${exportName}"`);
+    }
+
+    return func;
+}
+
+/**
+ * Import all the SDF modules used by levelSet operations, and all the warp
+ * modules used by warp operations, in a list of CSG operation trees. Modules
+ * are only imported once per worker.
+ */
+export async function loadModules(trees: Array<WorkerOperation>): Promise<void> {
+    const urls = new Set<string>();
+    for (const tree of trees) {
+        iterateOpTree<EncodedMeshGroup | EncodedMeshHandle>(tree, null, null, (_context, _key, node) => {
+            if (node.operation === 'levelSet' && 'module' in (node.sdf as object)) {
+                urls.add((node.sdf as SDFModule).module);
+            } else if (node.operation === 'warp' && 'module' in node.deformation) {
+                urls.add(node.deformation.module);
+            }
+        });
+    }
+
+    for (const url of urls) {
+        if (!importedModules.has(url)) {
+            importedModules.set(url, await import(url));
+        }
+    }
+}
+
+/**
+ * Get the material that covers the most triangles in a list of Manifold
+ * objects, or null if none of the triangles have a material.
+ */
+function getDominantMaterial(manifolds: Array<Manifold>, materialMap: Map<number, number>): number | null {
+    const indexCounts = new Map<number, number>();
+    for (const manifold of manifolds) {
+        const mesh = manifold.getMesh();
+        const runIndex = mesh.runIndex;
+        const runOriginalID = mesh.runOriginalID;
+        const runCount = runOriginalID.length;
+
+        for (let r = 0; r < runCount; r++) {
+            const materialID = materialMap.get(runOriginalID[r]);
+            if (materialID !== undefined) {
+                const indexCount = runIndex[r + 1] - runIndex[r];
+                indexCounts.set(materialID, (indexCounts.get(materialID) ?? 0) + indexCount);
+            }
+        }
+    }
+
+    let dominantMaterial: number | null = null;
+    let dominantCount = 0;
+    for (const [materialID, indexCount] of indexCounts) {
+        if (indexCount > dominantCount) {
+            dominantMaterial = materialID;
+            dominantCount = indexCount;
+        }
+    }
+
+    return dominantMaterial;
+}
+
+/**
+ * Evaluate a tree of 2D operations into a CrossSection object, or convert a
+ * list of polygons into a CrossSection object. The returned CrossSection
+ * object must be deleted by the caller.
+ */
+function evaluateCrossSection(manifoldModule: ManifoldToplevel, tree: Polygons | CSGCrossSection): CrossSection {
+    if (Array.isArray(tree)) {
+        return new manifoldModule.CrossSection(tree);
+    } else if ('contours' in tree) {
+        return new manifoldModule.CrossSection(tree.contours, tree.fillRule);
+    } else if ('crossSections' in tree) {
+        const children = new Array<CrossSection>();
+
+        try {
+            for (const child of tree.crossSections) {
+                children.push(evaluateCrossSection(manifoldModule, child));
+            }
+
+            switch (tree.operation) {
+                case 'union':
+                    return manifoldModule.CrossSection.union(children);
+                case 'difference':
+                    return manifoldModule.CrossSection.difference(children);
+                case 'intersection':
+                    return manifoldModule.CrossSection.intersection(children);
+            }
+        } finally {
+            for (const child of children) {
+                child.delete();
+            }
+        }
+    } else {
+        const child = evaluateCrossSection(manifoldModule, tree.crossSection);
+
+        try {
+            switch (tree.operation) {
+                case 'offset':
+                    return child.offset(tree.delta, tree.joinType, tree.miterLimit, tree.circularSegments);
+                case 'simplify':
+                    return child.simplify(tree.epsilon);
+                case 'translate':
+                    return child.translate(tree.offset);
+                case 'rotate':
+                    return child.rotate(tree.degrees);
+                case 'scale':
+                    return child.scale(tree.factor);
+                case 'mirror':
+                    return child.mirror(tree.normal);
+                case 'transform':
+                    return child.transform(tree.matrix);
+            }
+        } finally {
+            child.delete();
+        }
+    }
+
+    // XXX fighting the type system again...
+    throw new Error(`Unknown cross-section operation: ${(tree as {operation: string}).operation}`);
+}
+
+/**
+ * Get the mass properties of a Manifold object with a uniform density. The
+ * volume integrals are accumulated from the signed tetrahedra formed by each
+ * triangle and the origin.
+ */
+function getMassProperties(manifold: Manifold, density: number): MassProperties {
+    const mesh = manifold.getMesh();
+    const numProp = mesh.numProp;
+    const vertProperties = mesh.vertProperties;
+    const triVerts = mesh.triVerts;
+    const indexCount = triVerts.length;
+
+    let volume = 0;
+    let cx = 0, cy = 0, cz = 0;
+    // second moments of volume (covariance), relative to the origin
+    let xx = 0, yy = 0, zz = 0, xy = 0, xz = 0, yz = 0;
+
+    for (let i = 0; i < indexCount; i += 3) {
+        const a = triVerts[i] * numProp;
+        const b = triVerts[i + 1] * numProp;
+        const c = triVerts[i + 2] * numProp;
+        const ax = vertProperties[a], ay = vertProperties[a + 1], az = vertProperties[a + 2];
+        const bx = vertProperties[b], by = vertProperties[b + 1], bz = vertProperties[b + 2];
+        const qx = vertProperties[c], qy = vertProperties[c + 1], qz = vertProperties[c + 2];
+
+        // 6 times the signed volume of the tetrahedron
+        const det = ax * (by * qz - bz * qy) - ay * (bx * qz - bz * qx) + az * (bx * qy - by * qx);
+        const sx = ax + bx + qx, sy = ay + by + qy, sz = az + bz + qz;
+
+        volume += det;
+        cx += det * sx;
+        cy += det * sy;
+        cz += det * sz;
+        xx += det * (ax * ax + bx * bx + qx * qx + sx * sx);
+        yy += det * (ay * ay + by * by + qy * qy + sy * sy);
+        zz += det * (az * az + bz * bz + qz * qz + sz * sz);
+        xy += det * (ax * ay + bx * by + qx * qy + sx * sy);
+        xz += det * (ax * az + bx * bz + qx * qz + sx * sz);
+        yz += det * (ay * az + by * bz + qy * qz + sy * sz);
+    }
+
+    volume /= 6;
+    const mass = volume * density;
+    const centroid: Vec3 = [0, 0, 0];
+
+    if (volume !== 0) {
+        centroid[0] = cx / (24 * volume);
+        centroid[1] = cy / (24 * volume);
+        centroid[2] = cz / (24 * volume);
+    }
+
+    // move covariance to the centroid, and scale by density
+    const [gx, gy, gz] = centroid;
+    const cxx = density * (xx / 120 - volume * gx * gx);
+    const cyy = density * (yy / 120 - volume * gy * gy);
+    const czz = density * (zz / 120 - volume * gz * gz);
+    const cxy = density * (xy / 120 - volume * gx * gy);
+    const cxz = density * (xz / 120 - volume * gx * gz);
+    const cyz = density * (yz / 120 - volume * gy * gz);
+
+    // inertia tensor is trace(C) * I - C
+    return {
+        mass,
+        volume,
+        surfaceArea: manifold.getProperties().surfaceArea,
+        centroid,
+        inertia: [
+            cyy + czz, -cxy, -cxz,
+            -cxy, cxx + czz, -cyz,
+            -cxz, -cyz, cxx + cyy,
+        ],
+    };
+}
+
+/**
+ * Get the contours of a CrossSection object, marked as outer loops or holes.
+ * Takes ownership of the CrossSection object.
+ */
+function getCrossSectionContours(crossSection: CrossSection): Array<CrossSectionContour> {
+    try {
+        return crossSection.toPolygons().map((points) => {
+            // XXX toPolygons is typed as returning arrays of Vec2, but it
+            // actually returns arrays of {x, y} objects
+            const polyline = (points as unknown as Array<{ x: number, y: number }>).map(({ x, y }): Vec2 => [x, y]);
+            return { polyline, isHole: isClockwise2DPolygon(polyline) };
+        });
+    } finally {
+        crossSection.delete();
+    }
+}
+
+/**
+ * Get the vertex positions of a Manifold object.
+ */
+function getManifoldPositions(manifold: Manifold): Array<Vec3> {
+    const mesh = manifold.getMesh();
+    const numProp = mesh.numProp;
+    const vertProperties = mesh.vertProperties;
+    const vertCount = vertProperties.length / numProp;
+    const positions = new Array<Vec3>(vertCount);
+
+    for (let v = 0, i = 0; v < vertCount; v++, i += numProp) {
+        positions[v] = [vertProperties[i], vertProperties[i + 1], vertProperties[i + 2]];
+    }
+
+    return positions;
+}
+
+/**
+ * Get the Minkowski sum of a Manifold object and a convex kernel, given as the
+ * list of the kernel's points, or the Minkowski difference if eroding. The
+ * kernel is swept over each triangle by taking the convex hull of the
+ * triangle's vertices offset by each kernel point, and the swept volumes are
+ * then added to (or subtracted from) the manifold. Each swept volume gets the
+ * material of the triangle it was swept from. Convex manifolds with a single
+ * material are grown with a single convex hull instead. Does not take
+ * ownership of the input Manifold object.
+ */
+function minkowski(manifoldModule: ManifoldToplevel, manifold: Manifold, kernel: Array<Vec3>, erode: boolean, attributeMapping: AttributeMapping, materialMap: Map<number, number>, wantedExtraAttributes: Map<number, Array<number>>): Manifold {
+    const kernelCount = kernel.length;
+    if (kernelCount === 0 || manifold.isEmpty()) {
+        // XXX translating by nothing is just a cheap copy
+        return manifold.translate([0, 0, 0]);
+    }
+
+    const mesh = manifold.getMesh();
+    const numProp = mesh.numProp;
+    const vertProperties = mesh.vertProperties;
+    const triVerts = mesh.triVerts;
+    const runIndex = mesh.runIndex;
+    const runOriginalID = mesh.runOriginalID;
+    const runCount = runOriginalID.length;
+
+    // XXX a hull can only have one material, so the fast path is only taken
+    // if all the faces have the same material, otherwise face materials
+    // would be lost
+    const runMaterials = new Set<number | null>();
+    for (let r = 0; r < runCount; r++) {
+        runMaterials.add(materialMap.get(runOriginalID[r]) ?? null);
+    }
+
+    if (!erode && runMaterials.size === 1) {
+        // fast path for convex manifolds; the sum is the hull of all the
+        // pairwise sums of points
+        const hull = manifold.hull();
+        const hullVolume = hull.getProperties().volume;
+        hull.delete();
+
+        if (Math.abs(hullVolume - manifold.getProperties().volume) <= hullVolume * 1e-5) {
+            const sums = new Array<Vec3>();
+            for (const [x, y, z] of getManifoldPositions(manifold)) {
+                for (const [kx, ky, kz] of kernel) {
+                    sums.push([x + kx, y + ky, z + kz]);
+                }
+            }
+
+            const sum = manifoldModule.Manifold.hull(sums);
+            const [materialID] = runMaterials;
+            return prepareGeneratedManifold(sum, materialID, attributeMapping, materialMap, wantedExtraAttributes);
+        }
+    }
+
+    const sign = erode ? -1 : 1;
+    const swept = new Array<Manifold>();
+
+    try {
+        for (let r = 0; r < runCount; r++) {
+            const materialID = materialMap.get(runOriginalID[r]) ?? null;
+            const runEnd = runIndex[r + 1];
+
+            for (let i = runIndex[r]; i < runEnd; i += 3) {
+                const points = new Array<Vec3>(3 * kernelCount);
+                let p = 0;
+                for (let j = 0; j < 3; j++) {
+                    const offset = triVerts[i + j] * numProp;
+                    const x = vertProperties[offset];
+                    const y = vertProperties[offset + 1];
+                    const z = vertProperties[offset + 2];
+
+                    for (const [kx, ky, kz] of kernel) {
+                        points[p++] = [x + sign * kx, y + sign * ky, z + sign * kz];
+                    }
+                }
+
+                const triHull = manifoldModule.Manifold.hull(points);
+                if (triHull.isEmpty()) {
+                    // XXX degenerate kernels (a single point) sweep nothing
+                    triHull.delete();
+                } else {
+                    swept.push(prepareGeneratedManifold(triHull, materialID, attributeMapping, materialMap, wantedExtraAttributes));
+                }
+            }
+        }
+
+        if (erode) {
+            const sweptUnion = manifoldModule.Manifold.union(swept);
+            try {
+                return manifold.subtract(sweptUnion);
+            } finally {
+                sweptUnion.delete();
+            }
+        } else {
+            // XXX the interior of the manifold isn't covered by the swept
+            // volumes, so also add the manifold offset by a kernel point
+            swept.push(manifold.translate(kernel[0]));
+            return manifoldModule.Manifold.union(swept);
+        }
+    } finally {
+        for (const sweptPart of swept) {
+            sweptPart.delete();
+        }
+    }
+}
+
+/**
+ * Get the curvature of a Manifold object. The curvature is calculated as
+ * vertex properties, and then extracted from the vertex properties.
+ */
+function getCurvature(manifold: Manifold): Curvature {
+    const gaussianIdx = manifold.numProp();
+    const withCurvature = manifold.calculateCurvature(gaussianIdx, gaussianIdx + 1);
+
+    try {
+        const mesh = withCurvature.getMesh();
+        const numProp = mesh.numProp;
+        const vertProperties = mesh.vertProperties;
+        const vertexCount = vertProperties.length / numProp;
+        const curvature: Curvature = {
+            maxMeanCurvature: -Infinity,
+            minMeanCurvature: Infinity,
+            maxGaussianCurvature: -Infinity,
+            minGaussianCurvature: Infinity,
+            vertMeanCurvature: new Array(vertexCount),
+            vertGaussianCurvature: new Array(vertexCount),
+        };
+
+        // XXX property channels don't include the position, which is always
+        // the first 3 vertex properties
+        for (let i = 0, offset = 3 + gaussianIdx; i < vertexCount; i++, offset += numProp) {
+            const gaussian = vertProperties[offset];
+            const mean = vertProperties[offset + 1];
+            curvature.vertGaussianCurvature[i] = gaussian;
+            curvature.vertMeanCurvature[i] = mean;
+            curvature.maxGaussianCurvature = Math.max(curvature.maxGaussianCurvature, gaussian);
+            curvature.minGaussianCurvature = Math.min(curvature.minGaussianCurvature, gaussian);
+            curvature.maxMeanCurvature = Math.max(curvature.maxMeanCurvature, mean);
+            curvature.minMeanCurvature = Math.min(curvature.minMeanCurvature, mean);
+        }
+
+        return curvature;
+    } finally {
+        withCurvature.delete();
+    }
+}
+
+/**
+ * Wrap a tree iteration callback so that, instead of being called immediately,
+ * its call is added to a list of steps which can be ran later. Used for
+ * splitting the evaluation of a tree into steps, so that evaluation can yield
+ * between nodes.
+ */
+function deferCallback<A extends Array<unknown>>(steps: Array<() => void>, callback: (...args: A) => void): (...args: A) => void {
+    return (...args: A) => {
+        steps.push(() => callback(...args));
+    };
+}
+
+/**
+ * Evaluate a list of encoded CSG operation trees, and get the result of each
+ * tree. Doesn't depend on the worker environment, so it can also be used to
+ * evaluate trees in any thread that has a Manifold module, such as in
+ * benchmarks. SDF and warp modules used by the trees must have been loaded
+ * with {@link loadModules} beforehand.
+ *
+ * If a yield callback is passed, then it's awaited periodically between
+ * nodes, so that other tasks, such as cancellation requests, can run while
+ * the trees are evaluated. Evaluation is aborted if the callback throws. Note
+ * that the uploaded meshes must not be modified while evaluation is yielding.
+ *
+ * @param manifoldModule - The Manifold module to use for evaluation.
+ * @param trees - The encoded operation trees to evaluate.
+ * @param residents - For each tree, the handle to keep the resulting manifold resident as, or null if the result is not kept resident.
+ * @param transfer - A list which the buffers of the results will be added to, so that they can be transferred.
+ * @param allocatedManifolds - A list which allocated Manifold objects will be added to. They must be deleted by the caller when the results are no longer needed.
+ * @param uploadedMeshes - The meshes that were uploaded or kept resident, by handle.
+ * @param onProgress - An optional callback which is called periodically with the number of evaluated nodes and the total number of nodes.
+ * @param sharedMemory - If true, the buffers of resulting meshes are backed by SharedArrayBuffers, instead of being added to the transfer list. False by default.
+ * @param yieldCallback - An optional callback which is awaited periodically between nodes. Evaluation is aborted with the thrown error if it throws.
+ * @returns A promise which resolves to the result of each tree.
+ */
+export async function evaluateOpTrees(manifoldModule: ManifoldToplevel, trees: Array<WorkerOperation>, residents: Array<number | null>, transfer: Array<Transferable>, allocatedManifolds: Array<Manifold>, uploadedMeshes: UploadedMeshMap, onProgress: ((evaluated: number, total: number) => void) | null = null, sharedMemory = false, yieldCallback: (() => Promise<void>) | null = null): Promise<Array<WorkerResult>> {
+    // create a common mapping for MeshGroup extra mesh attributes. nodes are
+    // also counted, for progress reports
+    let attributeMapping: AttributeMapping = [];
+    let numProp = 3;
+    let usesUploadedMeshes = false;
+    let nodeCount = 0;
+    const countNode = () => {
+        nodeCount++;
+    };
+
+    for (const tree of trees) {
+        iterateOpTree<EncodedMeshGroup | EncodedMeshHandle>(tree, (_context, _key, mesh) => {
+            nodeCount++;
+
+            if ('handle' in mesh) {
+                usesUploadedMeshes = true;
+                return;
+            }
+
+            for (const submesh of mesh.submeshes) {
+                for (const [attrType, _attrArray] of submesh.extraAttributes) {
+                    let found = false;
+                    for (const [oAttrType, _oOffset] of attributeMapping) {
+                        if (attrType === oAttrType) {
+                            found = true;
+                            break;
+                        }
+                    }
+
+                    if (found) {
+                        continue;
+                    }
+
+                    const componentSize = getComponentCount(attrType);
+                    attributeMapping.push([attrType, numProp, componentSize]);
+                    numProp += componentSize;
+                }
+            }
+        }, countNode, countNode, countNode);
+    }
+
+    // uploaded meshes and resident manifolds have a fixed layout. if any is
+    // used, or if any result is kept resident, then use the same layout for
+    // all meshes
+    if (usesUploadedMeshes || residents.some((resident) => resident !== null)) {
+        attributeMapping = CANONICAL_ATTRIBUTE_MAPPING;
+        numProp = CANONICAL_NUM_PROP;
+    }
+
+    // warped manifolds need to have their normals recalculated, if there are
+    // normals
+    const normalAttr = attributeMapping.findIndex(([attrType, _attrOffset, _attrCompSize]) => attrType === MeshAttribute.Normal);
+
+    // progress is reported after each node is evaluated, but not too often,
+    // so that the client isn't flooded with messages
+    let evaluatedCount = 0;
+    let lastProgressTime = 0;
+    const reportProgress = () => {
+        evaluatedCount++;
+        if (onProgress === null) {
+            return;
+        }
+
+        const now = Date.now();
+        if (evaluatedCount === nodeCount || now - lastProgressTime >= PROGRESS_INTERVAL) {
+            lastProgressTime = now;
+            onProgress(evaluatedCount, nodeCount);
+        }
+    };
+
+    // evaluate operation trees. the material map and wanted extra attributes
+    // are shared, since the same inputs can be used in multiple trees
+    const results = new Array<WorkerResult>();
+    const materialMap = new Map<number, number>();
+    const wantedExtraAttributes = new Map<number, Array<number>>();
+    const convertedMeshes = new Map<EncodedMeshGroup, Manifold>();
+    const treeCount = trees.length;
+    let lastYieldTime = Date.now();
+
+    for (let t = 0; t < treeCount; t++) {
+        const tree = trees[t];
+        const resident = residents[t];
+        const stack = new Array<Manifold>();
+        const steps = new Array<() => void>();
+        let result: WorkerResult | undefined = undefined;
+
+        // XXX nodes are only evaluated after the whole tree is iterated, so
+        // that evaluation can yield between nodes
+        iterateOpTree<EncodedMeshGroup | EncodedMeshHandle>(tree, deferCallback(steps, (_context, _key, mesh) => {
+            // meshgroup
+            // logWorker(console.debug, 'Adding mesh as manifold to stack');
+            let meshManif: Manifold;
+
+            if ('handle' in mesh) {
+                // uploaded mesh or resident manifold. map materials from
+                // the upload to the job's materials. note that cached
+                // manifolds must not be freed after the job finishes
+                let runs: Array<MeshRun>;
+                [meshManif, runs] = getUploadedManifold(manifoldModule, uploadedMeshes, mesh.handle);
+
+                for (const [originalID, localMaterialID, wanted] of runs) {
+                    if (localMaterialID !== null) {
+                        const materialID = mesh.materials[localMaterialID];
+                        if (materialID === undefined) {
+                            throw new Error(`Material ID ${localMaterialID} of mesh handle ${mesh.handle} is not mapped`);
+                        }
+
+                        materialMap.set(originalID, materialID);
+                    }
+
+                    wantedExtraAttributes.set(originalID, wanted);
+                }
+            } else {
+                // XXX encoded meshes shared between trees of a batch are only
+                // converted once
+                const converted = convertedMeshes.get(mesh);
+                if (converted) {
+                    meshManif = converted;
+                } else {
+                    let runs: Array<MeshRun>;
+                    [meshManif, runs] = meshGroupToManifold(manifoldModule, mesh, attributeMapping, numProp);
+                    allocatedManifolds.push(meshManif);
+                    convertedMeshes.set(mesh, meshManif);
+
+                    for (const [originalID, materialID, wanted] of runs) {
+                        if (materialID !== null) {
+                            materialMap.set(originalID, materialID);
+                        }
+
+                        wantedExtraAttributes.set(originalID, wanted);
+                    }
+                }
+            }
+
+            stack.push(meshManif);
+            reportProgress();
+        }), deferCallback(steps, (_context, _key, node) => {
+            // primitive
+            // logWorker(console.debug, `Adding primitive (${node.primitive}) to stack`);
+            let primitiveManifold: Manifold;
+
+            switch (node.primitive) {
+                case 'cube':
+                    primitiveManifold = manifoldModule.Manifold.cube(
+                        node.size, node.center
+                    );
+                    break;
+                case 'cylinder':
+                    primitiveManifold = manifoldModule.Manifold.cylinder(
+                        node.height, node.radiusLow, node.radiusHigh,
+                        node.circularSegments, node.center
+                    );
+                    break;
+                case 'sphere':
+                    primitiveManifold = manifoldModule.Manifold.sphere(
+                        node.radius, node.circularSegments
+                    );
+                    break;
+                case 'tetrahedron':
+                    primitiveManifold = manifoldModule.Manifold.tetrahedron();
+                    break;
+                case 'torus': {
+                    const circle = manifoldModule.CrossSection.circle(node.minorRadius, node.minorSegments);
+                    const tube = circle.translate([node.majorRadius, 0]);
+                    circle.delete();
+                    primitiveManifold = tube.revolve(node.majorSegments);
+                    tube.delete();
+                    break;
+                }
+                case 'capsule': {
+                    const zOffset = node.center ? -node.height / 2 : 0;
+                    const bottom = manifoldModule.Manifold.sphere(node.radius, node.circularSegments);
+                    const bottomMoved = bottom.translate([0, 0, zOffset]);
+                    bottom.delete();
+                    const top = bottomMoved.translate([0, 0, node.height]);
+                    primitiveManifold = manifoldModule.Manifold.hull([bottomMoved, top]);
+                    bottomMoved.delete();
+                    top.delete();
+                    break;
+                }
+                case 'polyhedron':
+                    primitiveManifold = makePolyhedron(manifoldModule, node.vertices, node.faces);
+                    break;
+                default:
+                    throw new Error(`Unknown primitive: ${(node as {primitive: string}).primitive}`);
+            }
+
+            primitiveManifold = prepareSurface(manifoldModule, primitiveManifold, node, attributeMapping, numProp, materialMap, wantedExtraAttributes);
+
+            allocatedManifolds.push(primitiveManifold);
+            stack.push(primitiveManifold);
+            reportProgress();
+        }), deferCallback(steps, (_context, _key, node) => {
+            // operation
+            // logWorker(console.debug, `Starting operation (${node.operation})...`);
+            let res: Manifold;
+
+            switch (node.operation) {
+                case 'add':
+                case 'union':
+                case 'subtract':
+                case 'difference':
+                case 'intersect':
+                case 'intersection': {
+                    const opFunc = manifoldModule.Manifold[boolOpMap[node.operation]];
+
+                    if ('manifolds' in node) {
+                        // logWorker(console.debug, `Popping ${node.manifolds.length} manifolds, pushing 1`);
+                        res = opFunc(popManifolds(stack, node.manifolds.length));
+                    } else {
+                        // logWorker(console.debug, 'Popping 2 manifolds, pushing 1');
+
+                        if (stack.length < 2) {
+                            throw new Error(`Expected at least 2 manifolds in the stack, got ${stack.length}`);
+                        }
+
+                        res = opFunc(
+                            stack.pop() as Manifold,
+                            stack.pop() as Manifold
+                        );
+                    }
+                    break;
+                }
+                case 'compose':
+                    // logWorker(console.debug, `Popping ${node.manifolds.length} manifolds, pushing 1`);
+                    res = manifoldModule.Manifold.compose(popManifolds(stack, node.manifolds.length));
+                    break;
+                case 'hull': {
+                    // logWorker(console.debug, `Popping ${node.manifolds.length} manifolds, pushing 1`);
+                    const manifolds = popManifolds(stack, node.manifolds.length);
+                    const hull = manifoldModule.Manifold.hull([...manifolds, ...(node.points ?? [])]);
+
+                    // give the hull the most common material of the inputs
+                    res = prepareGeneratedManifold(hull, getDominantMaterial(manifolds, materialMap), attributeMapping, materialMap, wantedExtraAttributes);
+                    break;
+                }
+                case 'minkowski': {
+                    // logWorker(console.debug, 'Popping 2 manifolds, pushing 1');
+                    const [manifold, kernel] = popManifolds(stack, 2);
+                    res = minkowski(manifoldModule, manifold, getManifoldPositions(kernel), false, attributeMapping, materialMap, wantedExtraAttributes);
+                    break;
+                }
+                case 'translate':
+                case 'rotate':
+                case 'scale':
+                case 'transform':
+                case 'refine':
+                case 'asOriginal':
+                case 'trimByPlane':
+                case 'mirror':
+                case 'warp':
+                case 'offset': {
+                    // logWorker(console.debug, 'Popping 1 manifold, pushing 1');
+
+                    if (stack.length < 1) {
+                        throw new Error(`Expected at least 1 manifold on the stack, got ${stack.length}`);
+                    }
+
+                    const top = stack.pop() as Manifold;
+                    switch(node.operation) {
+                        case 'translate':
+                            res = top.translate(node.offset);
+                            break;
+                        case 'rotate':
+                            res = top.rotate(node.degrees);
+                            break;
+                        case 'scale':
+                            res = top.scale(node.factor);
+                            break;
+                        case 'transform':
+                            res = top.transform(node.matrix);
+                            break;
+                        case 'refine':
+                            res = top.refine(node.splits);
+                            break;
+                        case 'asOriginal':
+                            res = top.asOriginal();
+                            break;
+                        case 'trimByPlane':
+                            res = top.trimByPlane(node.normal, node.originOffset);
+                            break;
+                        case 'mirror':
+                            res = top.mirror(node.normal);
+                            break;
+                        case 'warp': {
+                            const deformation = node.deformation;
+                            const warpFunc = 'module' in deformation ? getModuleFunction(deformation, 'Warp') as (vert: Vec3) => void : makeBuiltinWarp(deformation);
+                            res = top.warp(warpFunc);
+
+                            // the warped normals are wrong, recalculate them
+                            if (normalAttr >= 0) {
+                                const warped = res;
+                                // XXX property channels don't include the position
+                                res = warped.calculateNormals(attributeMapping[normalAttr][1] - 3, GENERATED_MIN_SHARP_ANGLE);
+                                warped.delete();
+                            }
+                            break;
+                        }
+                        case 'offset': {
+                            let kernel = new Array<Vec3>();
+                            if (node.distance !== 0) {
+                                // XXX Manifold's default amount of circular
+                                // segments is less than 4 for small radii,
+                                // which spheres can't be made with
+                                const radius = Math.abs(node.distance);
+                                const circularSegments = node.circularSegments ?? Math.max(manifoldModule.getCircularSegments(radius), 4);
+                                const sphere = manifoldModule.Manifold.sphere(radius, circularSegments);
+                                kernel = getManifoldPositions(sphere);
+                                sphere.delete();
+                            }
+
+                            res = minkowski(manifoldModule, top, kernel, node.distance < 0, attributeMapping, materialMap, wantedExtraAttributes);
+                        }
+                    }
+
+                    break;
+                }
+                case 'extrude':
+                case 'revolve': {
+                    // logWorker(console.debug, 'Pushing 1 manifold');
+                    const crossSection = evaluateCrossSection(manifoldModule, node.crossSection);
+
+                    try {
+                        if (node.operation === 'extrude') {
+                            res = crossSection.extrude(
+                                node.height, node.nDivisions,
+                                node.twistDegrees, node.scaleTop
+                            );
+                        } else {
+                            res = crossSection.revolve(node.circularSegments);
+                        }
+                    } finally {
+                        crossSection.delete();
+                    }
+
+                    res = prepareSurface(manifoldModule, res, node, attributeMapping, numProp, materialMap, wantedExtraAttributes);
+                    break;
+                }
+                case 'levelSet': {
+                    // logWorker(console.debug, 'Pushing 1 manifold');
+                    const sdf = 'module' in (node.sdf as object) ? getModuleFunction(node.sdf as SDFModule, 'SDF') as (point: Vec3) => number : compileSDFExpression(node.sdf as SDFExpression);
+                    const levelSet = manifoldModule.Manifold.levelSet(
+                        sdf, node.bounds, node.edgeLength, node.level
+                    );
+
+                    res = prepareGeneratedManifold(levelSet, null, attributeMapping, materialMap, wantedExtraAttributes);
+                    break;
+                }
+                default:
+                    // XXX fighting the type system again...
+                    throw new Error(`Unknown operation: ${(node as {operation: string}).operation}`);
+            }
+
+            allocatedManifolds.push(res);
+            stack.push(res);
+            reportProgress();
+
+            // logWorker(console.debug, 'Operation finished');
+        }), deferCallback(steps, (_context, _key, root) => {
+            // logWorker(console.debug, 'Top operation. Popping 1 or 2 manifolds');
+            // top operation
+            const wantedCount = (root.operation === 'split' || root.operation === 'minGap' || root.operation === 'overlaps') ? 2 : 1;
+            if (stack.length !== wantedCount) {
+                throw new Error(`Expected ${wantedCount} manifold${wantedCount === 1 ? '' : 's'} on the stack, got ${stack.length}`);
+            }
+            if (result !== undefined) {
+                throw new Error('Expected no current result, but result was already set');
+            }
+            if (resident !== null) {
+                throw new Error(`The result of a ${root.operation} operation can't be kept resident`);
+            }
+
+            const top = stack.pop() as Manifold;
+            let pieces: Array<Manifold> | null = null;
+            switch (root.operation) {
+                case 'decompose':
+                    pieces = top.decompose();
+                    break;
+                case 'split':
+                    pieces = top.split(stack.pop() as Manifold);
+                    break;
+                case 'splitByPlane':
+                    pieces = top.splitByPlane(root.normal, root.originOffset);
+            }
+
+            if (pieces !== null) {
+                // each piece keeps the original IDs of the parts it came from,
+                // so materials are preserved
+                const meshGroups = new Array<EncodedMeshGroup>();
+                for (const piece of pieces) {
+                    allocatedManifolds.push(piece);
+                    meshGroups.push(manifoldToMeshGroup(piece, attributeMapping, materialMap, wantedExtraAttributes, transfer, sharedMemory));
+                }
+
+                result = [WorkerResultType.MeshGroupList, meshGroups];
+                reportProgress();
+                return;
+            }
+
+            let resValue: WorkerResultPassthroughValue;
+            switch (root.operation) {
+                case 'isEmpty':
+                    resValue = top.isEmpty();
+                    break;
+                case 'numVert':
+                    resValue = top.numVert();
+                    break;
+                case 'numTri':
+                    resValue = top.numTri();
+                    break;
+                case 'numEdge':
+                    resValue = top.numEdge();
+                    break;
+                case 'boundingBox':
+                    resValue = top.boundingBox();
+                    break;
+                case 'precision':
+                    resValue = top.precision();
+                    break;
+                case 'genus':
+                    resValue = top.genus();
+                    break;
+                case 'getProperties':
+                    resValue = top.getProperties();
+                    break;
+                case 'getCurvature':
+                    resValue = getCurvature(top);
+                    break;
+                case 'getMassProperties':
+                    resValue = getMassProperties(top, root.density ?? 1);
+                    break;
+                case 'minGap':
+                    resValue = top.minGap(stack.pop() as Manifold, root.searchLength);
+                    break;
+                case 'overlaps': {
+                    const intersection = top.intersect(stack.pop() as Manifold);
+                    resValue = intersection.getProperties().volume > 0;
+                    intersection.delete();
+                    break;
+                }
+                case 'originalID':
+                    resValue = top.originalID();
+                    break;
+                case 'slice':
+                    resValue = getCrossSectionContours(top.slice(root.height));
+                    break;
+                case 'project':
+                    resValue = getCrossSectionContours(top.project());
+                    break;
+                default:
+                    throw new Error(`Unknown top operation: ${(root as {operation: string}).operation}`);
+            }
+
+            result = [WorkerResultType.Passthrough, resValue];
+            reportProgress();
+        }));
+
+        for (const step of steps) {
+            step();
+
+            if (yieldCallback !== null && Date.now() - lastYieldTime >= YIELD_INTERVAL) {
+                await yieldCallback();
+                lastYieldTime = Date.now();
+            }
+        }
+
+        if (result === undefined) {
+            if (stack.length === 1 && resident !== null) {
+                // keep the manifold in the worker instead of sending it
+                // back. map its original IDs to the job's materials, so that
+                // the materials can be remapped when it's used in another job
+                const top = stack[0];
+                const topIdx = allocatedManifolds.indexOf(top);
+                if (topIdx >= 0) {
+                    allocatedManifolds.splice(topIdx, 1);
+                }
+
+                const runs = new Array<MeshRun>();
+                for (const [originalID, wanted] of wantedExtraAttributes) {
+                    runs.push([originalID, materialMap.get(originalID) ?? null, wanted]);
+                }
+
+                uploadedMeshes.set(resident, [top, runs]);
+                results.push([WorkerResultType.Resident, resident]);
+            } else if (stack.length === 1) {
+                results.push([WorkerResultType.MeshGroup, manifoldToMeshGroup(stack[0], attributeMapping, materialMap, wantedExtraAttributes, transfer, sharedMemory)]);
+            } else {
+                throw new Error(`Unexpected number of manifolds in stack (${stack.length}) after evaluation`);
+            }
+        } else {
+            if (stack.length === 0) {
+                results.push(result);
+            } else {
+                throw new Error("Manifolds stack expected to be empty, but isn't");
+            }
+        }
+    }
+
+    return results;
+}
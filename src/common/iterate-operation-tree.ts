@@ -17,6 +17,9 @@ function iterateOpTreeNode<MeshType>(context: OpTreeCtx<MeshType>, key: string |
             case 'cylinder':
             case 'sphere':
             case 'tetrahedron':
+            case 'torus':
+            case 'capsule':
+            case 'polyhedron':
                 if (handlePrimitive) {
                     handlePrimitive(context, key, primNode);
                 }
@@ -37,7 +40,9 @@ function iterateOpTreeNode<MeshType>(context: OpTreeCtx<MeshType>, key: string |
             case 'subtract':
             case 'difference':
             case 'intersect':
-            case 'intersection': {
+            case 'intersection':
+            case 'compose':
+            case 'hull': {
                 // XXX children are iterated from right to left so that they can
                 // be pushed to a stack and then popped at the right order
                 if ('manifolds' in opNode) {
@@ -54,16 +59,31 @@ function iterateOpTreeNode<MeshType>(context: OpTreeCtx<MeshType>, key: string |
                 }
                 break;
             }
+            case 'minkowski':
+                // XXX children are iterated from last to first so that they
+                // can be pushed to a stack and then popped at the right order
+                iterateOpTreeNode(opNode as unknown as OpTreeCtx<MeshType>, 'kernel', opNode.kernel, handleMesh, handlePrimitive, handleOperation);
+                iterateOpTreeNode(opNode as unknown as OpTreeCtx<MeshType>, 'manifold', opNode.manifold, handleMesh, handlePrimitive, handleOperation);
+
+                if (handleOperation) {
+                    handleOperation(context, key, opNode);
+                }
+                break;
             case 'translate':
             case 'rotate':
             case 'scale':
             case 'transform':
             case 'refine':
             case 'asOriginal':
+            case 'trimByPlane':
+            case 'mirror':
+            case 'warp':
+            case 'offset':
                 iterateOpTreeNode(opNode as unknown as OpTreeCtx<MeshType>, 'manifold', opNode.manifold, handleMesh, handlePrimitive, handleOperation);
                 // XXX intentional fallthrough
             case 'extrude':
             case 'revolve':
+            case 'levelSet':
                 if (handleOperation) {
                     handleOperation(context, key, opNode as CSGGeometricOperation<MeshType>);
                 }
@@ -71,8 +91,8 @@ function iterateOpTreeNode<MeshType>(context: OpTreeCtx<MeshType>, key: string |
             default: {
                 // XXX fighting the type system again...
                 const op = (opNode as {operation: string}).operation;
-                if (op === 'compose' || op === 'decompose') {
-                    throw new Error(`${op} operation is not implemented yet`);
+                if (op === 'decompose') {
+                    throw new Error('decompose operation can only be the top operation, since it returns multiple manifolds');
                 } else {
                     throw new Error(`Unknown operation: ${op}`);
                 }
@@ -107,7 +127,33 @@ export function iterateOpTree<MeshType>(tree: CSGOperation<MeshType>, handleMesh
             case 'genus':
             case 'getProperties':
             case 'getCurvature':
+            case 'getMassProperties':
             case 'originalID':
+            case 'decompose':
+            case 'splitByPlane':
+            case 'slice':
+            case 'project':
+                iterateOpTreeNode(tree as unknown as OpTreeCtx<MeshType>, 'manifold', tree.manifold, handleMesh, handlePrimitive, handleOperation);
+
+                if (handleTopOperation) {
+                    handleTopOperation(context, 'root', tree);
+                }
+                break;
+            case 'split':
+                // XXX children are iterated from last to first so that they
+                // can be pushed to a stack and then popped at the right order
+                iterateOpTreeNode(tree as unknown as OpTreeCtx<MeshType>, 'cutter', tree.cutter, handleMesh, handlePrimitive, handleOperation);
+                iterateOpTreeNode(tree as unknown as OpTreeCtx<MeshType>, 'manifold', tree.manifold, handleMesh, handlePrimitive, handleOperation);
+
+                if (handleTopOperation) {
+                    handleTopOperation(context, 'root', tree);
+                }
+                break;
+            case 'minGap':
+            case 'overlaps':
+                // XXX children are iterated from last to first so that they
+                // can be pushed to a stack and then popped at the right order
+                iterateOpTreeNode(tree as unknown as OpTreeCtx<MeshType>, 'other', tree.other, handleMesh, handlePrimitive, handleOperation);
                 iterateOpTreeNode(tree as unknown as OpTreeCtx<MeshType>, 'manifold', tree.manifold, handleMesh, handlePrimitive, handleOperation);
 
                 if (handleTopOperation) {
@@ -0,0 +1,110 @@
+import type { Vec3 } from 'manifold-3d';
+import type { BuiltinWarp } from './BuiltinWarp';
+
+type WarpFunction = (vert: Vec3) => void;
+
+const AXIS_INDICES = { x: 0, y: 1, z: 2 };
+const DEG_TO_RAD = Math.PI / 180;
+
+function hash3(x: number, y: number, z: number, seed: number): number {
+    // integer hash of a lattice point, mapped to [-1, 1]
+    let h = Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^ Math.imul(z, 0x3c6ef372) ^ Math.imul(seed, 0x7feb352d);
+    h = Math.imul(h ^ (h >>> 15), 0x2c1b3c6d);
+    h = Math.imul(h ^ (h >>> 12), 0x297a2d39);
+    h ^= h >>> 15;
+    return (h >>> 0) / 0x7fffffff - 1;
+}
+
+function smoothstep(t: number): number {
+    return t * t * (3 - 2 * t);
+}
+
+function valueNoise(x: number, y: number, z: number, seed: number): number {
+    const x0 = Math.floor(x), y0 = Math.floor(y), z0 = Math.floor(z);
+    const tx = smoothstep(x - x0), ty = smoothstep(y - y0), tz = smoothstep(z - z0);
+    let value = 0;
+
+    // trilinear interpolation of the lattice values around the point
+    for (let i = 0; i < 8; i++) {
+        const dx = i & 1, dy = (i >> 1) & 1, dz = (i >> 2) & 1;
+        const weight = (dx ? tx : 1 - tx) * (dy ? ty : 1 - ty) * (dz ? tz : 1 - tz);
+        value += weight * hash3(x0 + dx, y0 + dy, z0 + dz, seed);
+    }
+
+    return value;
+}
+
+/**
+ * Make a function which can be passed to Manifold's warp from a deformation in
+ * the built-in library.
+ */
+export function makeBuiltinWarp(warp: BuiltinWarp): WarpFunction {
+    switch (warp.type) {
+        case 'twist': {
+            const a = AXIS_INDICES[warp.axis ?? 'y'];
+            const u = (a + 1) % 3, v = (a + 2) % 3;
+            const rate = warp.degreesPerUnit * DEG_TO_RAD;
+
+            return (vert) => {
+                const angle = vert[a] * rate;
+                const cos = Math.cos(angle), sin = Math.sin(angle);
+                const pu = vert[u], pv = vert[v];
+                vert[u] = pu * cos - pv * sin;
+                vert[v] = pu * sin + pv * cos;
+            };
+        }
+        case 'taper': {
+            const a = AXIS_INDICES[warp.axis ?? 'y'];
+            const u = (a + 1) % 3, v = (a + 2) % 3;
+            const factor = warp.factor;
+
+            return (vert) => {
+                const scale = 1 + factor * vert[a];
+                vert[u] *= scale;
+                vert[v] *= scale;
+            };
+        }
+        case 'bend': {
+            const a = AXIS_INDICES[warp.axis ?? 'y'];
+            const t = AXIS_INDICES[warp.towards ?? 'x'];
+            if (a === t) {
+                throw new Error('The bend axis and the axis it bends towards must be different');
+            }
+
+            const curvature = warp.degreesPerUnit * DEG_TO_RAD;
+            if (curvature === 0) {
+                return () => {
+                    // XXX no curvature; nothing to bend
+                };
+            }
+
+            // XXX the axis is bent around a circle with a radius of
+            // 1/curvature, centered along the axis it bends towards
+            const radius = 1 / curvature;
+
+            return (vert) => {
+                const angle = vert[a] * curvature;
+                const distance = radius - vert[t];
+                vert[a] = distance * Math.sin(angle);
+                vert[t] = radius - distance * Math.cos(angle);
+            };
+        }
+        case 'noise': {
+            const amplitude = warp.amplitude;
+            const frequency = warp.frequency;
+            const seed = warp.seed ?? 0;
+
+            return (vert) => {
+                const x = vert[0] * frequency, y = vert[1] * frequency, z = vert[2] * frequency;
+                // XXX each component uses a different seed so that the
+                // displacement isn't the same along all axes
+                vert[0] += amplitude * valueNoise(x, y, z, seed);
+                vert[1] += amplitude * valueNoise(x, y, z, seed + 1);
+                vert[2] += amplitude * valueNoise(x, y, z, seed + 2);
+            };
+        }
+        default:
+            // XXX fighting the type system again...
+            throw new Error(`Unknown built-in warp: ${(warp as {type: string}).type}`);
+    }
+}
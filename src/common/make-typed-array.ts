@@ -0,0 +1,12 @@
+type SupportedTypedArrayCtor = Uint8ArrayConstructor | Uint16ArrayConstructor | Uint32ArrayConstructor | Float32ArrayConstructor;
+
+/**
+ * Make a zero-filled typed array. If shared is true, then the typed array is
+ * backed by a SharedArrayBuffer, so that it can be read and written by
+ * workers without being copied or transferred.
+ */
+export function makeTypedArray<T extends SupportedTypedArrayCtor>(ctor: T, length: number, shared: boolean): InstanceType<T> {
+    const byteLength = length * ctor.BYTES_PER_ELEMENT;
+    const buffer = shared ? new SharedArrayBuffer(byteLength) : new ArrayBuffer(byteLength);
+    return new ctor(buffer) as InstanceType<T>;
+}
@@ -1,4 +1,5 @@
 import { MeshIndexType } from '@wonderlandengine/api';
+import { makeTypedArray } from './make-typed-array';
 
 const MAX_INDEX = 0xFFFFFFFF;
 
@@ -26,20 +27,21 @@ export function getIndexBufferType(vertexCount: number): MeshIndexType {
  *
  * @param size - The ammount of indices in the indexData buffer.
  * @param meshIndexType - The mesh index type, which decides the byte size per index.
+ * @param shared - If true, the indexData buffer will be backed by a SharedArrayBuffer. False by default.
  * @returns A tuple containing the indexData buffer, and the indexType argument to be passed to the WL.Mesh constructor.
  */
-export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType.UnsignedByte): Uint8Array;
-export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType.UnsignedShort): Uint16Array;
-export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType.UnsignedInt): Uint32Array;
-export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType): Uint8Array | Uint16Array | Uint32Array;
-export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType): Uint8Array | Uint16Array | Uint32Array {
+export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType.UnsignedByte, shared?: boolean): Uint8Array;
+export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType.UnsignedShort, shared?: boolean): Uint16Array;
+export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType.UnsignedInt, shared?: boolean): Uint32Array;
+export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType, shared?: boolean): Uint8Array | Uint16Array | Uint32Array;
+export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexType, shared = false): Uint8Array | Uint16Array | Uint32Array {
     switch(meshIndexType) {
         case MeshIndexType.UnsignedByte:
-            return new Uint8Array(size);
+            return makeTypedArray(Uint8Array, size, shared);
         case MeshIndexType.UnsignedShort:
-            return new Uint16Array(size);
+            return makeTypedArray(Uint16Array, size, shared);
         case MeshIndexType.UnsignedInt:
-            return new Uint32Array(size);
+            return makeTypedArray(Uint32Array, size, shared);
         default:
             throw new Error(`Unknown mesh index index type ID ${meshIndexType}`);
     }
@@ -52,11 +54,12 @@ export function makeIndexBufferForType(size: number, meshIndexType: MeshIndexTyp
  *
  * @param size - The ammount of indices in the indexData buffer.
  * @param vertexCount - The amount of vertices that will be indexed.
+ * @param shared - If true, the indexData buffer will be backed by a SharedArrayBuffer. False by default.
  * @returns A tuple containing the indexData buffer, and the indexType argument to be passed to the WL.Mesh constructor.
  */
-export function makeIndexBuffer(size: number, vertexCount: number): IndexDataTypeMapping {
+export function makeIndexBuffer(size: number, vertexCount: number, shared = false): IndexDataTypeMapping {
     const meshIndexType = getIndexBufferType(vertexCount);
-    const buf = makeIndexBufferForType(size, meshIndexType);
+    const buf = makeIndexBufferForType(size, meshIndexType, shared);
     // XXX i don't know how typescript can fail at such a basic type inference,
     // but you've done it. congratulations typescript
     return [buf, meshIndexType] as IndexDataTypeMapping;
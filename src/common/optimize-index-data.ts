@@ -4,12 +4,13 @@ import type { MeshIndexType } from '@wonderlandengine/api';
 
 /**
  * Optimize an index buffer. If the index buffer is already optimal, it is
- * reused.
+ * reused. If not, then the new index buffer is backed by a SharedArrayBuffer
+ * if shared is true.
  */
-export function optimizeIndexData(indexData: Uint8Array | Uint16Array | Uint32Array, curIndexDataType: MeshIndexType, indexCount: number, vertexCount: number): IndexDataTypeMapping {
+export function optimizeIndexData(indexData: Uint8Array | Uint16Array | Uint32Array, curIndexDataType: MeshIndexType, indexCount: number, vertexCount: number, shared = false): IndexDataTypeMapping {
     const optimalIndexBufferType = getIndexBufferType(vertexCount);
     if (optimalIndexBufferType !== curIndexDataType) {
-        const optimalIndexData = makeIndexBufferForType(indexCount, optimalIndexBufferType);
+        const optimalIndexData = makeIndexBufferForType(indexCount, optimalIndexBufferType, shared);
         optimalIndexData.set(indexData);
         return [optimalIndexData, optimalIndexBufferType] as IndexDataTypeMapping;
     } else {
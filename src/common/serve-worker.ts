@@ -0,0 +1,247 @@
+import ManifoldModule from 'manifold-3d';
+import { WorkerResultType } from './WorkerResponse';
+import { evaluateOpTrees, loadModules } from './evaluate-op-trees';
+
+import type { WorkerRequest } from './WorkerRequest';
+import type { WorkerResponse, WorkerResult } from './WorkerResponse';
+import type { ManifoldToplevel, Manifold } from 'manifold-3d';
+import type { UploadedMeshMap } from './evaluate-op-trees';
+import type { WorkerScope } from './WorkerScope';
+
+type JobRequest = Extract<WorkerRequest, { type: 'operation' | 'batch' }>;
+type RunningJob = [jobID: number, cancelled: boolean];
+
+function logWorker(callback: (message: string) => void, message: unknown) {
+    callback(`[Worker ${globalScope?.name}] ${message}`);
+}
+
+function postResponse(response: WorkerResponse, transfer: Array<Transferable> = []) {
+    (globalScope as WorkerScope).postMessage(response, transfer);
+}
+
+let globalScope: WorkerScope | null = null;
+let globalManifoldModule: ManifoldToplevel | null = null;
+const globalUploadedMeshes: UploadedMeshMap = new Map();
+let runningJob: RunningJob | null = null;
+// requests received while a job is running, other than cancellations. they
+// are handled after the job finishes, since uploaded meshes must not be
+// modified while a job is using them
+const deferredRequests = new Array<WorkerRequest>();
+
+function yieldToEventLoop(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function runJob(manifoldModule: ManifoldToplevel, request: JobRequest) {
+    const jobID = request.jobID;
+    logWorker(console.debug, `Job ${jobID} started`);
+    const allocatedManifolds = new Array<Manifold>();
+    const isBatch = request.type === 'batch';
+    const trees = isBatch ? request.operations : [request.operation];
+    const residents = isBatch ? request.residents : [request.resident];
+    const job: RunningJob = [jobID, false];
+    runningJob = job;
+
+    const throwIfCancelled = () => {
+        if (job[1]) {
+            throw new Error(`Job ${jobID} was cancelled`);
+        }
+    };
+
+    try {
+        await loadModules(trees);
+        throwIfCancelled();
+
+        // XXX evaluation periodically yields to the event loop, so that
+        // cancellation requests can be received while the job is running
+        const transfer = new Array<Transferable>();
+        const results = await evaluateOpTrees(
+            manifoldModule,
+            trees,
+            residents,
+            transfer,
+            allocatedManifolds,
+            globalUploadedMeshes,
+            request.progress ? (evaluated, total) => {
+                postResponse({
+                    type: 'progress', jobID, evaluated, total,
+                });
+            } : null,
+            request.sharedMemory,
+            async () => {
+                await yieldToEventLoop();
+                throwIfCancelled();
+            }
+        );
+
+        const result: WorkerResult = isBatch ? [WorkerResultType.Batch, results] : results[0];
+
+        postResponse({
+            type: 'result',
+            success: true,
+            jobID,
+            result,
+        }, transfer);
+
+        logWorker(console.debug, `Job ${jobID} finished`);
+    } catch(error) {
+        // don't keep results of failed or cancelled jobs resident, since the
+        // client won't know about them
+        for (const resident of residents) {
+            if (resident !== null) {
+                releaseUploadedMesh(resident);
+            }
+        }
+
+        if (job[1]) {
+            logWorker(console.debug, `Job ${jobID} cancelled`);
+            postResponse({ type: 'cancelled', jobID });
+        } else {
+            logWorker(console.debug, `Job ${jobID} failed`);
+            logWorker(console.error, error);
+
+            postResponse({
+                type: 'result',
+                success: false,
+                jobID,
+                error,
+            });
+        }
+    }
+
+    // free allocated manifold objects
+    for (const manifold of allocatedManifolds) {
+        manifold.delete();
+    }
+
+    runningJob = null;
+}
+
+function releaseUploadedMesh(handle: number) {
+    const uploaded = globalUploadedMeshes.get(handle);
+    if (uploaded === undefined) {
+        return;
+    }
+
+    globalUploadedMeshes.delete(handle);
+
+    if (Array.isArray(uploaded)) {
+        uploaded[0].delete();
+    }
+}
+
+async function handleRequest(request: WorkerRequest) {
+    if (runningJob !== null) {
+        if (request.type === 'cancel') {
+            if (request.jobID === runningJob[0]) {
+                runningJob[1] = true;
+            }
+        } else {
+            deferredRequests.push(request);
+        }
+
+        return;
+    }
+
+    switch(request.type) {
+        case 'initialize':
+            if (!globalManifoldModule) {
+                try {
+                    // XXX we are now bundling instead of importing because
+                    // manifold is an es6 module, and firefox doesnt support
+                    // importing es6 modules in workers. it will be added in
+                    // firefox 111, but we still need some reverse compatibility
+                    // instead of just supporting the bleeding edge
+                    logWorker(console.debug, 'Initializing worker'); // `Initializing worker with libary path "${request.libraryPath}"`
+                    // importScripts(request.libraryPath);
+                    // logWorker(console.debug, `Imported library successfuly`);
+                    globalManifoldModule = await ManifoldModule();
+                    logWorker(console.debug, `Done waiting for module`);
+                    globalManifoldModule.setup();
+                    logWorker(console.debug, `Module setup finished`);
+                } catch(error) {
+                    // XXX not sure what else can be done to clean up
+                    globalManifoldModule = null;
+                    logWorker(console.debug, 'Initialization failed');
+                    logWorker(console.error, error);
+                    postResponse({ type: 'crash', error });
+                    return;
+                }
+            }
+
+            logWorker(console.debug, 'Ready');
+            postResponse({ type: 'ready' });
+            return;
+        case 'terminate':
+            // XXX not sure what else can be done to clean up
+            globalManifoldModule = null;
+
+            for (const handle of Array.from(globalUploadedMeshes.keys())) {
+                releaseUploadedMesh(handle);
+            }
+
+            logWorker(console.debug, 'Terminated');
+            postResponse({ type: 'terminated' });
+            return;
+        case 'operation':
+        case 'batch': {
+            if (!globalManifoldModule) {
+                postResponse({
+                    type: 'result',
+                    success: false,
+                    jobID: request.jobID,
+                    error: 'Worker is not ready yet'
+                });
+                return;
+            }
+
+            // XXX the pool only sends jobs to idle workers, so jobs never
+            // need to be queued here
+            await runJob(globalManifoldModule, request);
+
+            while (runningJob === null && deferredRequests.length > 0) {
+                await handleRequest(deferredRequests.shift() as WorkerRequest);
+            }
+
+            return;
+        }
+        case 'cancel':
+            // XXX the job already finished, and its result was already sent
+            return;
+        case 'upload':
+            // XXX the manifold is only created when the mesh is first used,
+            // so that conversion errors are reported to the job using it
+            releaseUploadedMesh(request.handle);
+            globalUploadedMeshes.set(request.handle, request.meshGroup);
+            return;
+        case 'release':
+            releaseUploadedMesh(request.handle);
+            return;
+        default: {
+            // XXX fighting the type system again...
+            const type = (request as {type: string}).type;
+            const error = `Unknown worker request type: ${type}`;
+            logWorker(console.error, error);
+            postResponse({ type: 'crash', error });
+        }
+    }
+}
+
+/**
+ * Serve CSG jobs in the current worker. Notifies the pool that the worker was
+ * created, and returns the function which must be called for each request
+ * sent by the pool. Must only be called once per worker.
+ *
+ * @param scope - The environment-specific scope of the worker, used for sending responses to the pool.
+ * @returns A function which handles a request from the pool.
+ */
+export function serveWorker(scope: WorkerScope): (request: WorkerRequest) => Promise<void> {
+    if (globalScope) {
+        throw new Error('Worker is already being served');
+    }
+
+    globalScope = scope;
+    logWorker(console.debug, 'Created');
+    postResponse({ type: 'created' });
+    return handleRequest;
+}
@@ -0,0 +1,11 @@
+// XXX minimal declarations for the parts of the node:worker_threads module
+// used by the Node.js worker, so that @types/node isn't needed
+declare module 'node:worker_threads' {
+    interface MessagePort {
+        postMessage(value: unknown, transferList?: ReadonlyArray<Transferable>): void;
+        on(event: 'message', listener: (value: unknown) => void): this;
+    }
+
+    export const parentPort: MessagePort | null;
+    export const workerData: unknown;
+}
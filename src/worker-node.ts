@@ -0,0 +1,16 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { serveWorker } from './common/serve-worker';
+
+import type { WorkerRequest } from './common/WorkerRequest';
+
+if (!parentPort) {
+    throw new Error('The Node.js Gypsum worker must be ran in a worker thread');
+}
+
+const port = parentPort;
+const handleRequest = serveWorker({
+    name: (workerData as { name?: string } | null)?.name ?? 'unnamed',
+    postMessage: (response, transfer) => port.postMessage(response, transfer),
+});
+
+port.on('message', (request) => handleRequest(request as WorkerRequest));
@@ -0,0 +1,67 @@
+import type { WorkerRequest } from '../src/common/WorkerRequest';
+import type { WorkerResponse, WorkerResult } from '../src/common/WorkerResponse';
+import type { PoolWorker } from '../src/client/worker-env/PoolWorker';
+
+type JobRequest = Extract<WorkerRequest, { type: 'operation' | 'batch' }>;
+
+/**
+ * A worker which doesn't run CSG operations, created by a
+ * {@link FakeWorkerEnvironment}. It initializes like a real worker, records
+ * all the other requests it gets, and only responds to them when told to, so
+ * that tests can control when jobs finish or fail.
+ */
+export class FakeWorker implements PoolWorker {
+    /** All the requests that the pool sent to this worker, in order. */
+    readonly requests = new Array<WorkerRequest>();
+    /** Was this worker terminated by the pool? */
+    terminated = false;
+
+    constructor(readonly name: string, private onMessage: (response: WorkerResponse) => void, private onError: (message: string) => void) {
+        // XXX real workers are created asynchronously, so the pool isn't
+        // ready for messages until createWorker returns
+        setTimeout(() => this.respond({ type: 'created' }), 0);
+    }
+
+    /** The jobs that the pool sent to this worker, in order. */
+    get jobs(): Array<JobRequest> {
+        return this.requests.filter((request) => request.type === 'operation' || request.type === 'batch') as Array<JobRequest>;
+    }
+
+    /** The IDs of the jobs that the pool sent to this worker, in order. */
+    get jobIDs(): Array<number> {
+        return this.jobs.map((request) => request.jobID);
+    }
+
+    postMessage(request: WorkerRequest): void {
+        if (this.terminated) {
+            throw new Error(`Request sent to terminated worker ${this.name}`);
+        }
+
+        this.requests.push(request);
+
+        if (request.type === 'initialize') {
+            setTimeout(() => this.respond({ type: 'ready' }), 0);
+        }
+    }
+
+    terminate(): void {
+        this.terminated = true;
+    }
+
+    /** Send a response to the pool, unless this worker was terminated. */
+    respond(response: WorkerResponse) {
+        if (!this.terminated) {
+            this.onMessage(response);
+        }
+    }
+
+    /** Finish a job successfully. */
+    finishJob(jobID: number, result: WorkerResult) {
+        this.respond({ type: 'result', success: true, jobID, result });
+    }
+
+    /** Make the worker crash, as if it had an uncaught error. */
+    crash() {
+        this.onError(`Worker ${this.name} crashed on purpose`);
+    }
+}
@@ -0,0 +1,26 @@
+import { FakeWorker } from './FakeWorker';
+
+import type { WorkerResponse } from '../src/common/WorkerResponse';
+import type { WorkerEnvironment } from '../src/client/worker-env/WorkerEnvironment';
+
+/**
+ * A {@link WorkerEnvironment} which creates {@link FakeWorker} instances, for
+ * testing how a {@link CSGPool} schedules jobs without running CSG operations.
+ */
+export class FakeWorkerEnvironment implements WorkerEnvironment {
+    readonly hardwareConcurrency = 1;
+    readonly sharedMemory = false;
+    /** All the workers created by this environment, in order. */
+    readonly workers = new Array<FakeWorker>();
+
+    /** The workers that weren't terminated by the pool, in creation order. */
+    get liveWorkers(): Array<FakeWorker> {
+        return this.workers.filter((worker) => !worker.terminated);
+    }
+
+    createWorker(_workerPath: string, name: string, onMessage: (response: WorkerResponse) => void, onError: (message: string) => void): FakeWorker {
+        const worker = new FakeWorker(name, onMessage, onError);
+        this.workers.push(worker);
+        return worker;
+    }
+}
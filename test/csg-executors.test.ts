@@ -0,0 +1,113 @@
+import ManifoldModule from 'manifold-3d';
+import * as workerThreads from 'node:worker_threads';
+import { CSGPool } from '../src/client/CSGPool';
+import { CSGTimeoutError } from '../src/client/CSGTimeoutError';
+import { CubeMesh } from '../src/client/CubeMesh';
+import { InlineCSGExecutor } from '../src/client/InlineCSGExecutor';
+import { TypedArrayMeshBackend } from '../src/client/mesh-backend/TypedArrayMeshBackend';
+import { NodeWorkerEnvironment } from '../src/client/worker-env/NodeWorkerEnvironment';
+import { assert, assertClose, expectRejection, runTests } from './harness';
+
+import type { CSGTree } from '../src/common/CSGTree';
+import type { Test } from './harness';
+
+// XXX the pool tests need the Node.js worker from the build. the path is
+// relative to the working directory, which is the root of the package when
+// ran with `npm test`
+const WORKER_PATH = './dist/gypsum-manifold-node.worker.min.js';
+const VOLUME_EPSILON = 1e-4;
+
+function assertVolume(volume: number, expected: number) {
+    assertClose(volume, expected, VOLUME_EPSILON, 'unexpected volume');
+}
+
+/**
+ * Make a tree which takes a few seconds to evaluate; a union of many
+ * high-resolution overlapping spheres.
+ */
+function makeSlowTree(): CSGTree<never> {
+    let tree: CSGTree<never> = { primitive: 'sphere', radius: 1, circularSegments: 96 };
+    for (let i = 1; i < 40; i++) {
+        tree = {
+            operation: 'union',
+            left: tree,
+            right: {
+                operation: 'translate',
+                offset: [i * 0.3, 0, 0],
+                manifold: { primitive: 'sphere', radius: 1, circularSegments: 96 },
+            },
+        };
+    }
+
+    return tree;
+}
+
+async function withPool(callback: (pool: CSGPool) => Promise<void>) {
+    const pool = new CSGPool(1, WORKER_PATH, 'manifold.js', {
+        environment: new NodeWorkerEnvironment(workerThreads, 1),
+    });
+
+    try {
+        await callback(pool);
+    } finally {
+        pool.dispose();
+    }
+}
+
+const tests: Array<Test> = [
+    ['inline executor: cube union', async () => {
+        const manifoldModule = await ManifoldModule();
+        manifoldModule.setup();
+        const executor = new InlineCSGExecutor(manifoldModule);
+        const backend = new TypedArrayMeshBackend();
+
+        try {
+            const result = await executor.dispatch(backend, {
+                operation: 'union',
+                left: new CubeMesh(backend, 1),
+                right: {
+                    operation: 'translate',
+                    offset: [0.5, 0, 0],
+                    manifold: new CubeMesh(backend, 1),
+                },
+            });
+
+            assert(result.submeshCount > 0, 'expected the union to have submeshes');
+            assertVolume(await executor.volume(backend, result), 1.5);
+        } finally {
+            executor.dispose();
+        }
+    }],
+    ['pool: job timeout', async () => {
+        await withPool(async (pool) => {
+            const backend = new TypedArrayMeshBackend();
+            await expectRejection(
+                pool.volume(backend, makeSlowTree(), { timeout: 100 }),
+                (error) => error instanceof CSGTimeoutError,
+                'expected a CSGTimeoutError',
+            );
+
+            // the worker that timed out is replaced
+            assertVolume(await pool.volume(backend, { primitive: 'cube', size: 1 }), 1);
+        });
+    }],
+    ['pool: cancel running job', async () => {
+        await withPool(async (pool) => {
+            const backend = new TypedArrayMeshBackend();
+            const controller = new AbortController();
+            const reason = new Error('cancelled by test');
+            const promise = pool.volume(backend, makeSlowTree(), { signal: controller.signal });
+            setTimeout(() => controller.abort(reason), 100);
+            await expectRejection(promise, (error) => error === reason, 'expected the abort reason');
+
+            // the worker stops the cancelled job instead of finishing it, so
+            // the next job runs soon after
+            const start = Date.now();
+            assertVolume(await pool.volume(backend, { primitive: 'cube', size: 1 }), 1);
+            const elapsed = Date.now() - start;
+            assert(elapsed < 1000, `expected the cancelled job to be stopped, but the next job took ${elapsed} ms`);
+        });
+    }],
+];
+
+runTests(tests);
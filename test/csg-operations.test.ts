@@ -0,0 +1,432 @@
+import ManifoldModule from 'manifold-3d';
+import { MeshAttribute } from '@wonderlandengine/api';
+import { vec3 } from 'gl-matrix';
+import { CubeMesh } from '../src/client/CubeMesh';
+import { InlineCSGExecutor } from '../src/client/InlineCSGExecutor';
+import { MeshGroup } from '../src/client/MeshGroup';
+import { TypedArrayMeshBackend } from '../src/client/mesh-backend/TypedArrayMeshBackend';
+import { assert, assertClose, expectRejection, runTests } from './harness';
+
+import type { Material } from '@wonderlandengine/api';
+import type { Box } from 'manifold-3d';
+import type { CSGPrimitive } from '../src/common/CSGPrimitive';
+import type { TypedArrayMesh } from '../src/client/mesh-backend/TypedArrayMesh';
+import type { TypedArrayMeshAttributeAccessor } from '../src/client/mesh-backend/TypedArrayMeshAttributeAccessor';
+import type { Test } from './harness';
+
+const EPSILON = 1e-4;
+
+// XXX materials are only compared by identity, so they don't need to be real
+// Wonderland Engine materials
+const red = { name: 'red' } as unknown as Material;
+const blue = { name: 'blue' } as unknown as Material;
+
+const backend = new TypedArrayMeshBackend();
+let executor: InlineCSGExecutor;
+
+function getAttribute(mesh: TypedArrayMesh, attribute: MeshAttribute): TypedArrayMeshAttributeAccessor {
+    const accessor = mesh.attribute(attribute);
+    assert(accessor !== null, `expected mesh to have attribute ${attribute}`);
+    return accessor;
+}
+
+/**
+ * Call a callback for each triangle of a mesh, with the indices of the
+ * triangle's vertices.
+ */
+function forEachTriangle(mesh: TypedArrayMesh, callback: (a: number, b: number, c: number) => void) {
+    const indexData = mesh.indexData;
+    if (indexData === null) {
+        for (let i = 0; i < mesh.vertexCount; i += 3) {
+            callback(i, i + 1, i + 2);
+        }
+    } else {
+        for (let i = 0; i < indexData.length; i += 3) {
+            callback(indexData[i], indexData[i + 1], indexData[i + 2]);
+        }
+    }
+}
+
+/**
+ * Get the volume of a MeshGroup from its triangles. The volume is negative if
+ * the MeshGroup is inside-out.
+ */
+function getSignedVolume(meshGroup: MeshGroup<TypedArrayMesh>): number {
+    let volume = 0;
+    const cross = vec3.create();
+    for (const [mesh, _material] of meshGroup.getSubmeshes()) {
+        const positions = getAttribute(mesh, MeshAttribute.Position);
+        forEachTriangle(mesh, (a, b, c) => {
+            vec3.cross(cross, positions.get(b) as vec3, positions.get(c) as vec3);
+            volume += vec3.dot(positions.get(a) as vec3, cross) / 6;
+        });
+    }
+
+    return volume;
+}
+
+function getMaterials(meshGroup: MeshGroup<TypedArrayMesh>): Set<Material | null> {
+    return new Set(meshGroup.getSubmeshes().map(([_mesh, material]) => material));
+}
+
+function assertBox(box: Box, min: [number, number, number], max: [number, number, number]) {
+    for (let i = 0; i < 3; i++) {
+        assertClose(box.min[i], min[i], EPSILON, `unexpected minimum of bounding box in axis ${i}`);
+        assertClose(box.max[i], max[i], EPSILON, `unexpected maximum of bounding box in axis ${i}`);
+    }
+}
+
+function makeCube(size: number, offset: [number, number, number] = [0, 0, 0], surface: Partial<CSGPrimitive> = {}) {
+    return {
+        operation: 'translate' as const,
+        offset,
+        manifold: { ...surface, primitive: 'cube' as const, size },
+    };
+}
+
+/**
+ * Get the area of a 2D polygon. The area is negative if the polygon is
+ * clockwise.
+ */
+function getSignedArea(polyline: Array<ArrayLike<number>>): number {
+    let area = 0;
+    let last = polyline[polyline.length - 1];
+    for (const next of polyline) {
+        area += (last[0] * next[1] - next[0] * last[1]) / 2;
+        last = next;
+    }
+
+    return area;
+}
+
+function makeSquare(size: number, x: number, y: number): Array<[number, number]> {
+    return [[x, y], [x + size, y], [x + size, y + size], [x, y + size]];
+}
+
+const tests: Array<Test> = [
+    ['decompose: one mesh per disconnected piece', async () => {
+        const pieces = await executor.dispatch(backend, {
+            operation: 'decompose',
+            manifold: {
+                operation: 'compose',
+                manifolds: [makeCube(1), makeCube(2, [3, 0, 0])],
+            },
+        });
+
+        assert(pieces.length === 2, `expected 2 pieces, got ${pieces.length}`);
+        const volumes = pieces.map((piece) => getSignedVolume(piece)).sort((a, b) => a - b);
+        assertClose(volumes[0], 1, EPSILON, 'unexpected volume of small piece');
+        assertClose(volumes[1], 8, EPSILON, 'unexpected volume of big piece');
+    }],
+    ['split: intersection and difference with a cutter', async () => {
+        const [inside, outside] = await executor.dispatch(backend, {
+            operation: 'split',
+            manifold: makeCube(2, [-1, -1, -1]),
+            cutter: makeCube(2),
+        });
+
+        assertClose(getSignedVolume(inside), 1, EPSILON, 'unexpected volume of intersection');
+        assertClose(getSignedVolume(outside), 7, EPSILON, 'unexpected volume of difference');
+    }],
+    ['splitByPlane: first half is in the direction of the normal', async () => {
+        const [above, below] = await executor.dispatch(backend, {
+            operation: 'splitByPlane',
+            manifold: makeCube(2, [-1, -1, -1]),
+            normal: [0, 0, 1],
+            originOffset: 0.5,
+        });
+
+        assertClose(getSignedVolume(above), 2, EPSILON, 'unexpected volume of half above the plane');
+        assertClose(getSignedVolume(below), 6, EPSILON, 'unexpected volume of half below the plane');
+    }],
+    ['hull: convex hull of manifolds and points', async () => {
+        assertClose(await executor.volume(backend, {
+            operation: 'hull',
+            manifolds: [makeCube(1), makeCube(1, [2, 0, 0])],
+        }), 3, EPSILON, 'unexpected volume of hull of manifolds');
+
+        assertClose(await executor.volume(backend, {
+            operation: 'hull',
+            manifolds: [makeCube(1)],
+            points: [[0, 0, 2], [1, 0, 2], [1, 1, 2], [0, 1, 2]],
+        }), 2, EPSILON, 'unexpected volume of hull with extra points');
+    }],
+    ['minkowski: fast path for convex manifolds keeps their material', async () => {
+        const result = await executor.dispatch(backend, {
+            operation: 'minkowski',
+            manifold: makeCube(1, [0, 0, 0], { material: red }),
+            kernel: makeCube(1, [-0.5, -0.5, -0.5]),
+        });
+
+        assertClose(getSignedVolume(result), 8, EPSILON, 'unexpected volume of sum');
+        const materials = getMaterials(result);
+        assert(materials.size === 1 && materials.has(red), 'expected the sum to only have the material of the manifold');
+    }],
+    ['minkowski: non-convex manifolds', async () => {
+        // L shape; the sum is the union of the sums of both boxes
+        assertClose(await executor.volume(backend, {
+            operation: 'minkowski',
+            manifold: {
+                operation: 'union',
+                manifolds: [
+                    { primitive: 'cube', size: [2, 1, 1] },
+                    { primitive: 'cube', size: [1, 2, 1] },
+                ],
+            },
+            kernel: makeCube(1, [-0.5, -0.5, -0.5]),
+        }), 16, EPSILON, 'unexpected volume of sum');
+    }],
+    ['minkowski: convex manifolds with multiple materials keep face materials', async () => {
+        const cube = new CubeMesh(backend, 1, { material: red, upMaterial: blue });
+        const result = await executor.dispatch(backend, {
+            operation: 'minkowski',
+            manifold: cube,
+            kernel: makeCube(0.5, [-0.25, -0.25, -0.25]),
+        });
+
+        assertClose(getSignedVolume(result), 1.5 * 1.5 * 1.5, EPSILON, 'unexpected volume of sum');
+        const materials = getMaterials(result);
+        assert(materials.has(red) && materials.has(blue), 'expected the sum to have the materials of all faces');
+
+        // the middle of the top of the sum can only come from sweeping the up
+        // (+Y) face, so it must be blue
+        let checked = 0;
+        for (const [mesh, material] of result.getSubmeshes()) {
+            const positions = getAttribute(mesh, MeshAttribute.Position);
+            forEachTriangle(mesh, (a, b, c) => {
+                const centroid = vec3.create();
+                for (const v of [a, b, c]) {
+                    vec3.scaleAndAdd(centroid, centroid, positions.get(v) as vec3, 1 / 3);
+                }
+
+                const [x, y, z] = centroid;
+                if (Math.abs(y - 0.75) <= EPSILON && Math.abs(x) < 0.25 && Math.abs(z) < 0.25) {
+                    assert(material === blue, 'expected the middle of the top of the sum to be blue');
+                    checked++;
+                }
+            });
+        }
+
+        assert(checked > 0, 'expected triangles in the middle of the top of the sum');
+    }],
+    ['offset: grow and shrink', async () => {
+        assertClose(await executor.volume(backend, {
+            operation: 'offset',
+            manifold: makeCube(1),
+            distance: -0.1,
+        }), 0.8 * 0.8 * 0.8, EPSILON, 'unexpected volume of shrunk cube');
+
+        // a cube grown by r has a volume of 1 + 6r + 3πr² + 4/3πr³; a bit less
+        // since the rounding is made of flat faces
+        const r = 0.1;
+        const grownVolume = 1 + 6 * r + 3 * Math.PI * r * r + 4 / 3 * Math.PI * r * r * r;
+        const volume = await executor.volume(backend, {
+            operation: 'offset',
+            manifold: makeCube(1),
+            distance: r,
+            circularSegments: 32,
+        });
+
+        assert(volume < grownVolume && volume > grownVolume * 0.99, `expected a volume slightly less than ${grownVolume}, got ${volume}`);
+        assertBox(await executor.boundingBox(backend, {
+            operation: 'offset',
+            manifold: makeCube(1),
+            distance: r,
+            circularSegments: 32,
+        }), [-r, -r, -r], [1 + r, 1 + r, 1 + r]);
+    }],
+    ['mirror operation: result is not inside-out', async () => {
+        const result = await executor.dispatch(backend, {
+            operation: 'mirror',
+            manifold: makeCube(1),
+            normal: [1, 0, 0],
+        });
+
+        assertClose(getSignedVolume(result), 1, EPSILON, 'unexpected signed volume of mirrored cube');
+        assertBox(await executor.boundingBox(backend, result), [-1, 0, 0], [0, 1, 1]);
+    }],
+    ['MeshGroup.transform: reflections keep the winding order and normals outwards', async () => {
+        for (const [name, transform] of [
+            ['negative scale', (meshGroup: MeshGroup<TypedArrayMesh>) => meshGroup.scale([-1, 1, 1])],
+            ['mirror', (meshGroup: MeshGroup<TypedArrayMesh>) => meshGroup.mirror([0, 1, 0])],
+            ['double reflection', (meshGroup: MeshGroup<TypedArrayMesh>) => meshGroup.scale([-1, -1, 1])],
+        ] as const) {
+            const cube = new CubeMesh(backend, 1);
+            transform(cube);
+            assertClose(getSignedVolume(cube), 1, EPSILON, `unexpected signed volume after ${name}`);
+
+            // the cube is centered, so outward normals point away from the
+            // origin
+            for (const [mesh, _material] of cube.getSubmeshes()) {
+                const positions = getAttribute(mesh, MeshAttribute.Position);
+                const normals = getAttribute(mesh, MeshAttribute.Normal);
+                for (let i = 0; i < mesh.vertexCount; i++) {
+                    assert(vec3.dot(positions.get(i) as vec3, normals.get(i) as vec3) > 0, `expected outward normals after ${name}`);
+                }
+            }
+
+            // also check that the reflected mesh is accepted by Manifold
+            assertClose(await executor.volume(backend, cube), 1, EPSILON, `unexpected volume after ${name}`);
+            cube.dispose();
+        }
+    }],
+    ['getMassProperties: box with a density', async () => {
+        const properties = await executor.massProperties(backend, {
+            operation: 'translate',
+            offset: [1, 0, 0],
+            manifold: { primitive: 'cube', size: [1, 2, 3], center: true },
+        }, 2);
+
+        assertClose(properties.volume, 6, EPSILON, 'unexpected volume');
+        assertClose(properties.mass, 12, EPSILON, 'unexpected mass');
+        assertClose(properties.surfaceArea, 22, EPSILON, 'unexpected surface area');
+
+        for (let i = 0; i < 3; i++) {
+            assertClose(properties.centroid[i], i === 0 ? 1 : 0, EPSILON, `unexpected centroid in axis ${i}`);
+        }
+
+        // inertia of a box around its center of mass: m / 12 * (b² + c²) for
+        // each axis, and no products of inertia
+        const expectedInertia = [13, 0, 0, 0, 10, 0, 0, 0, 5];
+        for (let i = 0; i < 9; i++) {
+            assertClose(properties.inertia[i], expectedInertia[i], 1e-3, `unexpected inertia tensor component ${i}`);
+        }
+    }],
+    ['cross sections: extrude with holes and 2D operations', async () => {
+        // counter-clockwise outer square, clockwise hole
+        assertClose(await executor.volume(backend, {
+            operation: 'extrude',
+            crossSection: [makeSquare(2, 0, 0), makeSquare(1, 0.5, 0.5).reverse()],
+            height: 3,
+        }), 9, EPSILON, 'unexpected volume of extruded square with hole');
+
+        assertClose(await executor.volume(backend, {
+            operation: 'extrude',
+            crossSection: {
+                operation: 'difference',
+                crossSections: [
+                    { contours: [makeSquare(2, 0, 0)] },
+                    {
+                        operation: 'translate',
+                        offset: [1, 1],
+                        crossSection: { contours: [makeSquare(2, 0, 0)] },
+                    },
+                ],
+            },
+            height: 2,
+        }), 6, EPSILON, 'unexpected volume of extruded difference');
+    }],
+    ['cross sections: slice and project', async () => {
+        const tube = {
+            operation: 'subtract' as const,
+            manifolds: [
+                { primitive: 'cube' as const, size: 2, center: true },
+                { primitive: 'cylinder' as const, height: 4, radiusLow: 0.5, center: true },
+            ],
+        };
+
+        const contours = await executor.dispatch(backend, { operation: 'slice', manifold: tube, height: 0 });
+        assert(contours.length === 2, `expected 2 contours, got ${contours.length}`);
+        const outer = contours.filter((contour) => !contour.isHole);
+        const holes = contours.filter((contour) => contour.isHole);
+        assert(outer.length === 1 && holes.length === 1, 'expected an outer contour and a hole');
+
+        // outer contours are counter-clockwise, and holes are clockwise
+        assertClose(getSignedArea(outer[0].polyline), 4, EPSILON, 'unexpected signed area of outer contour');
+        const holeArea = getSignedArea(holes[0].polyline);
+        assert(holeArea < 0 && holeArea > -Math.PI * 0.25, `expected the hole to have a negative signed area, slightly bigger than ${-Math.PI * 0.25}, got ${holeArea}`);
+
+        const projection = await executor.dispatch(backend, { operation: 'project', manifold: makeCube(1) });
+        assert(projection.length === 1 && !projection[0].isHole, 'expected the projection of a cube to be a single outer contour');
+    }],
+    ['generated texture coordinates', async () => {
+        // the procedural cube has texture coordinates, so they are generated
+        // for the primitive. the primitive is translated after texture
+        // coordinates are generated
+        const result = await executor.dispatch(backend, {
+            operation: 'union',
+            manifolds: [
+                new CubeMesh(backend, 1),
+                makeCube(1, [5, 0, 0], { generateUVs: true, uvScale: 2 }),
+                makeCube(1, [-5, 0, 0]),
+            ],
+        });
+
+        let checkedGenerated = 0, checkedMissing = 0;
+        for (const [mesh, _material] of result.getSubmeshes()) {
+            const positions = getAttribute(mesh, MeshAttribute.Position);
+            const uvs = getAttribute(mesh, MeshAttribute.TextureCoordinate);
+            forEachTriangle(mesh, (a, b, c) => {
+                const [x0, y0, z0] = positions.get(a);
+                const [x1, y1, z1] = positions.get(b);
+                const [x2, y2, z2] = positions.get(c);
+
+                if (x0 > 4) {
+                    // top faces (+Z) are projected onto the XY plane
+                    if (z0 === 1 && z1 === 1 && z2 === 1) {
+                        for (const [v, x, y] of [[a, x0, y0], [b, x1, y1], [c, x2, y2]]) {
+                            const [u, w] = uvs.get(v);
+                            assertClose(u, (x - 5) * 2, EPSILON, 'unexpected generated U coordinate');
+                            assertClose(w, y * 2, EPSILON, 'unexpected generated V coordinate');
+                        }
+
+                        checkedGenerated++;
+                    }
+                } else if (x0 < -4) {
+                    for (const v of [a, b, c]) {
+                        const [u, w] = uvs.get(v);
+                        assert(u === 0 && w === 0, 'expected no texture coordinates if they are not generated');
+                    }
+
+                    checkedMissing++;
+                }
+            });
+        }
+
+        assert(checkedGenerated > 0 && checkedMissing > 0, 'expected triangles from both primitives');
+    }],
+    ['uploaded meshes and resident manifolds: lifetime', async () => {
+        const handle = executor.upload(new CubeMesh(backend, 1));
+        assertClose(await executor.volume(backend, handle), 1, EPSILON, 'unexpected volume of uploaded mesh');
+
+        const resident = await executor.dispatch(backend, {
+            operation: 'scale',
+            factor: 2,
+            manifold: handle,
+        }, { keepResident: true });
+
+        // the uploaded mesh can be released while a resident manifold made
+        // from it is still in use
+        executor.release(handle);
+        await expectRejection(
+            executor.volume(backend, handle),
+            (error) => error instanceof Error && error.message === 'Mesh handle was already released',
+            'expected released uploaded mesh to be rejected',
+        );
+
+        assertClose(await executor.volume(backend, resident), 8, EPSILON, 'unexpected volume of resident manifold');
+        executor.release(resident);
+        await expectRejection(
+            executor.volume(backend, resident),
+            (error) => error instanceof Error && error.message === 'Mesh handle was already released',
+            'expected released resident manifold to be rejected',
+        );
+
+        // releasing twice does nothing
+        executor.release(resident);
+    }],
+];
+
+async function main() {
+    const manifoldModule = await ManifoldModule();
+    manifoldModule.setup();
+    executor = new InlineCSGExecutor(manifoldModule);
+
+    try {
+        await runTests(tests);
+    } finally {
+        executor.dispose();
+    }
+}
+
+main();
@@ -0,0 +1,269 @@
+import { CSGPool } from '../src/client/CSGPool';
+import { CSGTimeoutError } from '../src/client/CSGTimeoutError';
+import { CubeMesh } from '../src/client/CubeMesh';
+import { ResidentManifold } from '../src/client/ResidentManifold';
+import { TypedArrayMeshBackend } from '../src/client/mesh-backend/TypedArrayMeshBackend';
+import { WorkerResultType } from '../src/common/WorkerResponse';
+import { FakeWorkerEnvironment } from './FakeWorkerEnvironment';
+import { assert, expectRejection, runTests, waitFor } from './harness';
+
+import type { CSGPoolOptions } from '../src/client/CSGPoolOptions';
+import type { DispatchOptions } from '../src/client/DispatchOptions';
+import type { MeshHandle } from '../src/client/MeshHandle';
+import type { FakeWorker } from './FakeWorker';
+import type { Test } from './harness';
+
+const backend = new TypedArrayMeshBackend();
+
+async function withPool(workerCount: number, options: CSGPoolOptions, callback: (pool: CSGPool, environment: FakeWorkerEnvironment) => Promise<void>) {
+    const environment = new FakeWorkerEnvironment();
+    const pool = new CSGPool(workerCount, 'fake-worker.js', 'fake-manifold.js', { ...options, environment });
+
+    try {
+        await pool.initialize();
+        await callback(pool, environment);
+    } finally {
+        pool.dispose();
+    }
+}
+
+/**
+ * Dispatch a job which resolves to a number. The fake workers never evaluate
+ * the tree, so the result is whatever number the test finishes the job with.
+ */
+function dispatchJob(pool: CSGPool, options?: DispatchOptions, manifold: MeshHandle | null = null): Promise<number> {
+    return pool.dispatch(backend, { operation: 'numTri', manifold: manifold ?? { primitive: 'cube' } }, options);
+}
+
+function finishJob(worker: FakeWorker, jobID: number, value: number) {
+    worker.finishJob(jobID, [WorkerResultType.Passthrough, value]);
+}
+
+/** Wait until all jobs that are being dispatched are queued in the pool. */
+function flushDispatches(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function isErrorWithMessage(message: string) {
+    return (error: unknown) => error instanceof Error && error.message === message;
+}
+
+const tests: Array<Test> = [
+    ['priority: higher priorities first, then in dispatch order', async () => {
+        await withPool(1, {}, async (pool, environment) => {
+            const worker = environment.workers[0];
+            const results = [
+                dispatchJob(pool),
+                dispatchJob(pool),
+                dispatchJob(pool, { priority: 5 }),
+                dispatchJob(pool, { priority: 5 }),
+                dispatchJob(pool, { priority: -1 }),
+            ];
+            await flushDispatches();
+
+            // only one job runs at a time in each worker
+            assert(worker.jobs.length === 1, `expected 1 job to be running, got ${worker.jobs.length}`);
+
+            for (let i = 0; i < results.length; i++) {
+                await waitFor(() => worker.jobs.length === i + 1, `job ${i + 1} is sent to the worker`);
+                const jobID = worker.jobIDs[i];
+                finishJob(worker, jobID, jobID * 10);
+            }
+
+            const order = worker.jobIDs.join(', ');
+            assert(order === '0, 2, 3, 1, 4', `unexpected job order: ${order}`);
+
+            for (const [jobID, result] of results.entries()) {
+                assert(await result === jobID * 10, `unexpected result for job ${jobID}`);
+            }
+        });
+    }],
+    ['retries: jobs are sent again if their worker dies', async () => {
+        await withPool(1, { respawnDelay: 10 }, async (pool, environment) => {
+            const retried = dispatchJob(pool, { retries: 1 });
+            await waitFor(() => environment.workers[0].jobs.length === 1, 'the job is sent to the worker');
+            environment.workers[0].crash();
+
+            assert(environment.workers[0].terminated, 'expected the crashed worker to be terminated');
+            await waitFor(() => environment.workers.length === 2 && environment.workers[1].jobs.length === 1, 'the job is sent to the respawned worker');
+            finishJob(environment.workers[1], 0, 42);
+            assert(await retried === 42, 'unexpected result of retried job');
+            assert(pool.health.deadWorkers === 1, `expected 1 dead worker, got ${pool.health.deadWorkers}`);
+
+            // jobs without retries are rejected
+            const notRetried = dispatchJob(pool);
+            await waitFor(() => environment.workers[1].jobs.length === 2, 'the job is sent to the worker');
+            environment.workers[1].crash();
+            await expectRejection(notRetried, isErrorWithMessage('Worker crashed before job could finish'), 'expected the job to be rejected');
+            const deadWorkers: number = pool.health.deadWorkers;
+            assert(deadWorkers === 2, `expected 2 dead workers, got ${deadWorkers}`);
+        });
+    }],
+    ['timeouts: the worker is replaced without being counted as dead', async () => {
+        await withPool(1, {}, async (pool, environment) => {
+            await expectRejection(dispatchJob(pool, { timeout: 20 }), (error) => error instanceof CSGTimeoutError, 'expected a CSGTimeoutError');
+            assert(environment.workers[0].terminated, 'expected the worker to be terminated');
+
+            // the default respawn delay is not used, since the worker didn't
+            // crash
+            const result = dispatchJob(pool);
+            await waitFor(() => environment.liveWorkers.length === 1 && environment.liveWorkers[0].jobs.length === 1, 'the job is sent to the new worker', 500);
+            finishJob(environment.liveWorkers[0], 1, 1);
+            assert(await result === 1, 'unexpected result');
+            assert(pool.health.deadWorkers === 0, `expected no dead workers, got ${pool.health.deadWorkers}`);
+        });
+    }],
+    ['cancellation: queued jobs are dropped, running jobs are stopped by the worker', async () => {
+        await withPool(1, {}, async (pool, environment) => {
+            const worker = environment.workers[0];
+            const runningController = new AbortController();
+            const queuedController = new AbortController();
+            const running = dispatchJob(pool, { signal: runningController.signal });
+            const queued = dispatchJob(pool, { signal: queuedController.signal });
+            const next = dispatchJob(pool);
+            await flushDispatches();
+
+            const reason = new Error('cancelled by test');
+            queuedController.abort(reason);
+            runningController.abort(reason);
+            await expectRejection(running, (error) => error === reason, 'expected the abort reason for the running job');
+            await expectRejection(queued, (error) => error === reason, 'expected the abort reason for the queued job');
+
+            // the worker is still busy until it stops the job
+            const cancelRequest = worker.requests[worker.requests.length - 1];
+            assert(cancelRequest.type === 'cancel' && cancelRequest.jobID === 0, 'expected the worker to be asked to cancel the job');
+            assert(worker.jobs.length === 1, 'expected no other job to be sent to the busy worker');
+
+            worker.respond({ type: 'cancelled', jobID: 0 });
+            await waitFor(() => worker.jobs.length === 2, 'the next job is sent to the worker');
+            assert(worker.jobIDs[1] === 2, 'expected the dropped job to never be sent');
+            finishJob(worker, 2, 2);
+            assert(await next === 2, 'unexpected result');
+            assert(!worker.terminated, 'expected the worker to not be terminated');
+        });
+    }],
+    ['cancellation: the worker is replaced if it does not stop the job in time', async () => {
+        await withPool(1, { cancelGracePeriod: 20 }, async (pool, environment) => {
+            const worker = environment.workers[0];
+            const controller = new AbortController();
+            const cancelled = dispatchJob(pool, { signal: controller.signal, timeout: 10000 });
+            const next = dispatchJob(pool);
+            await flushDispatches();
+
+            controller.abort();
+            await expectRejection(cancelled, (error) => error instanceof DOMException && error.name === 'AbortError', 'expected the default abort reason');
+
+            // the worker never responds, as if it was stuck in one operation
+            await waitFor(() => worker.terminated, 'the worker is terminated');
+            await waitFor(() => environment.liveWorkers.length === 1 && environment.liveWorkers[0].jobs.length === 1, 'the queued job is sent to the new worker', 500);
+            finishJob(environment.liveWorkers[0], 1, 1);
+            assert(await next === 1, 'unexpected result');
+            assert(pool.health.deadWorkers === 0, `expected no dead workers, got ${pool.health.deadWorkers}`);
+        });
+    }],
+    ['dispose: running and queued jobs are rejected', async () => {
+        const environment = new FakeWorkerEnvironment();
+        const pool = new CSGPool(1, 'fake-worker.js', 'fake-manifold.js', { environment });
+        await pool.initialize();
+
+        const running = dispatchJob(pool);
+        const queued = dispatchJob(pool);
+        await flushDispatches();
+        pool.dispose();
+
+        await expectRejection(running, isErrorWithMessage('CSGPool was disposed before job could finish'), 'expected the running job to be rejected');
+        await expectRejection(queued, isErrorWithMessage('CSGPool was disposed before job could be dispatched'), 'expected the queued job to be rejected');
+        assert(environment.workers[0].terminated, 'expected the worker to be terminated');
+        assert(pool.health.readyWorkers === 0, 'expected no workers after disposing');
+        await expectRejection(pool.initialize(), isErrorWithMessage('Cannot initialize a disposed CSGPool'), 'expected disposed pool to not be initialized');
+    }],
+    ['uploaded meshes: sent once to each worker, and released', async () => {
+        await withPool(1, {}, async (pool, environment) => {
+            const worker = environment.workers[0];
+            const handle = pool.upload(new CubeMesh(backend, 1));
+
+            for (let i = 0; i < 2; i++) {
+                const result = dispatchJob(pool, {}, handle);
+                await waitFor(() => worker.jobs.length === i + 1, 'the job is sent to the worker');
+                finishJob(worker, i, i);
+                await result;
+            }
+
+            const uploads = worker.requests.filter((request) => request.type === 'upload');
+            assert(uploads.length === 1, `expected the mesh to be uploaded once, got ${uploads.length} uploads`);
+            const uploadIdx = worker.requests.indexOf(uploads[0]);
+            assert(uploadIdx < worker.requests.indexOf(worker.jobs[0]), 'expected the mesh to be uploaded before the first job');
+
+            pool.release(handle);
+            const release = worker.requests[worker.requests.length - 1];
+            assert(release.type === 'release' && release.handle === handle.id, 'expected the mesh to be released in the worker');
+            await expectRejection(dispatchJob(pool, {}, handle), isErrorWithMessage('Mesh handle was already released'), 'expected released mesh to be rejected');
+
+            // queued jobs are rejected if their mesh is released before they
+            // are sent to a worker
+            const otherHandle = pool.upload(new CubeMesh(backend, 1));
+            const running = dispatchJob(pool);
+            const queued = dispatchJob(pool, {}, otherHandle);
+            await flushDispatches();
+            pool.release(otherHandle);
+            finishJob(worker, worker.jobIDs[2], 2);
+            await running;
+            await expectRejection(queued, isErrorWithMessage('A mesh handle used by the job was released, or its worker died, before the job could be dispatched'), 'expected queued job to be rejected');
+            assert(worker.requests.every((request) => request.type !== 'upload' || request.handle !== otherHandle.id), 'expected the released mesh to never be uploaded');
+        });
+    }],
+    ['resident manifolds: pinned to their worker, and lost when it dies', async () => {
+        await withPool(2, { respawnWorkers: false }, async (pool, environment) => {
+            const [first, second] = environment.workers;
+            const residentPromise = pool.dispatch(backend, { operation: 'translate', offset: [1, 0, 0], manifold: { primitive: 'cube' } }, { keepResident: true });
+            await waitFor(() => first.jobs.length === 1, 'the job is sent to the first worker');
+            const job = first.jobs[0];
+            assert(job.type === 'operation' && job.resident !== null, 'expected the worker to be asked to keep the result');
+            first.finishJob(job.jobID, [WorkerResultType.Resident, job.resident]);
+            const resident = await residentPromise;
+            assert(resident instanceof ResidentManifold, 'expected a resident manifold');
+
+            // jobs using the resident manifold wait for its worker, without
+            // blocking other jobs
+            const busy = dispatchJob(pool);
+            await waitFor(() => first.jobs.length === 2, 'the job is sent to the first worker');
+            const pinned = dispatchJob(pool, {}, resident);
+            const other = dispatchJob(pool);
+            await waitFor(() => second.jobs.length === 1, 'the other job is sent to the second worker');
+            assert(second.jobIDs[0] === 3, 'expected the job with the resident manifold to not be sent to the second worker');
+
+            finishJob(first, 1, 1);
+            await waitFor(() => first.jobs.length === 3, 'the pinned job is sent to the first worker');
+            assert(first.jobIDs[2] === 2, 'expected the pinned job to be sent to the first worker');
+            finishJob(second, 3, 3);
+            await Promise.all([busy, other]);
+
+            // the resident manifold is lost when its worker dies
+            first.crash();
+            await expectRejection(pinned, isErrorWithMessage('Worker crashed before job could finish'), 'expected the pinned job to be rejected');
+            await expectRejection(dispatchJob(pool, {}, resident), isErrorWithMessage('Resident manifold was already released, or its worker died'), 'expected the lost resident manifold to be rejected');
+        });
+    }],
+    ['resident manifolds: released in their worker', async () => {
+        await withPool(1, {}, async (pool, environment) => {
+            const worker = environment.workers[0];
+            const residentPromise = pool.dispatch(backend, { operation: 'translate', offset: [1, 0, 0], manifold: { primitive: 'cube' } }, { keepResident: true });
+            await waitFor(() => worker.jobs.length === 1, 'the job is sent to the worker');
+            const job = worker.jobs[0];
+            assert(job.type === 'operation' && job.resident !== null, 'expected the worker to be asked to keep the result');
+            worker.finishJob(job.jobID, [WorkerResultType.Resident, job.resident]);
+            const resident = await residentPromise;
+
+            pool.release(resident);
+            const release = worker.requests[worker.requests.length - 1];
+            assert(release.type === 'release' && release.handle === resident.id, 'expected the resident manifold to be released in the worker');
+            await expectRejection(dispatchJob(pool, {}, resident), isErrorWithMessage('Resident manifold was already released, or its worker died'), 'expected released resident manifold to be rejected');
+
+            // releasing twice does nothing
+            pool.release(resident);
+            assert(worker.requests[worker.requests.length - 1] === release, 'expected the resident manifold to only be released once');
+        });
+    }],
+];
+
+runTests(tests);
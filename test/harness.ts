@@ -0,0 +1,78 @@
+export type Test = [name: string, callback: () => Promise<void>];
+
+// XXX node exits early if a test waits for a promise that is never settled,
+// since nothing keeps the event loop alive, so tests also fail if they take
+// too long
+const TEST_TIMEOUT = 60000;
+
+export function assert(condition: boolean, message: string): asserts condition {
+    if (!condition) {
+        throw new Error(`Assertion failed: ${message}`);
+    }
+}
+
+export function assertClose(actual: number, expected: number, epsilon: number, message: string) {
+    assert(Math.abs(actual - expected) <= epsilon, `${message}; expected ${expected}, got ${actual}`);
+}
+
+export async function expectRejection(promise: Promise<unknown>, check: (error: unknown) => boolean, message: string) {
+    try {
+        await promise;
+    } catch(error) {
+        assert(check(error), `${message}, got ${error}`);
+        return;
+    }
+
+    throw new Error(`Assertion failed: ${message}, but the job succeeded`);
+}
+
+/**
+ * Wait until a condition is true, by polling it every event loop iteration.
+ * Throws if the condition is still false after the given time.
+ */
+export async function waitFor(condition: () => boolean, message: string, maxTime = 1000) {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > maxTime) {
+            throw new Error(`Assertion failed: timed out while waiting until ${message}`);
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+}
+
+/**
+ * Run a list of tests in order, and print which tests passed or failed. Throws
+ * if any test fails.
+ */
+export async function runTests(tests: Array<Test>) {
+    let failed = 0;
+    for (const [name, callback] of tests) {
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        try {
+            await Promise.race([
+                callback(),
+                new Promise((_resolve, reject) => {
+                    timer = setTimeout(() => reject(new Error(`Test timed out after ${TEST_TIMEOUT} ms`)), TEST_TIMEOUT);
+                }),
+            ]);
+            console.log(`ok - ${name}`);
+        } catch(error) {
+            failed++;
+            console.error(`not ok - ${name}`);
+            console.error(error);
+        } finally {
+            if (timer !== null) {
+                clearTimeout(timer);
+            }
+        }
+    }
+
+    // XXX throwing makes node exit with a non-zero exit code
+    if (failed > 0) {
+        throw new Error(`${failed} of ${tests.length} tests failed`);
+    }
+
+    console.log(`All ${tests.length} tests passed`);
+}
@@ -0,0 +1,6 @@
+// XXX minimal declarations for the parts of the node:worker_threads module
+// used by the tests, so that @types/node isn't needed. merged with the
+// declarations used by the Node.js worker
+declare module 'node:worker_threads' {
+    export const Worker: import('../src/client/worker-env/NodeWorkerThreads').NodeWorkerThreads['Worker'];
+}